@@ -104,8 +104,13 @@ export default defineConfig({
 						{ text: 'Futurable.sleep()', link: '/api/static-sleep' },
 						{ text: 'Futurable.delay()', link: '/api/static-delay' },
 						{ text: 'Futurable.fetch()', link: '/api/static-fetch' },
+						{ text: 'Futurable.fetchJson()', link: '/api/static-fetch-json' },
+						{ text: 'Futurable.fetchWithProgress()', link: '/api/static-fetch-with-progress' },
+						{ text: 'Futurable.createHttpClient()', link: '/api/static-create-http-client' },
 						{ text: 'Futurable.futurizable()', link: '/api/static-futurizable' },
-						{ text: 'Futurable.try()', link: '/api/static-try' }
+						{ text: 'Futurable.try()', link: '/api/static-try' },
+						{ text: 'Futurable.scope()', link: '/api/static-scope' },
+						{ text: 'Futurable.gen()', link: '/api/static-gen' }
 					]
 				},
 				{
@@ -164,6 +169,7 @@ export default defineConfig({
 						{ text: 'onCancel()', link: '/api-task/on-cancel' },
 						{ text: 'signal', link: '/api-task/signal' },
 						{ text: 'memoize()', link: '/api-task/memoize' },
+						{ text: 'share()', link: '/api-task/share' },
 						{ text: 'try()', link: '/api-task/try' }
 					]
 				},
@@ -181,6 +187,7 @@ export default defineConfig({
 					text: 'Error Handling',
 					items: [
 						{ text: 'retry()', link: '/api-task/retry' },
+						{ text: 'retryHttp()', link: '/api-task/retry-http' },
 						{ text: 'fallback-to()', link: '/api-task/fallback-to' },
 						{ text: 'orElse()', link: '/api-task/or-else' }
 					]
@@ -189,6 +196,7 @@ export default defineConfig({
 					text: 'Timing',
 					items: [
 						{ text: 'timeout()', link: '/api-task/timeout' },
+						{ text: 'withDeadline()', link: '/api-task/with-deadline' },
 						{ text: 'delay()', link: '/api-task/delay' },
 						{ text: 'debounce()', link: '/api-task/debounce' }
 					]
@@ -202,7 +210,21 @@ export default defineConfig({
 						{ text: 'FuturableTask.parallel()', link: '/api-task/parallel' },
 						{ text: 'FuturableTask.sequence()', link: '/api-task/sequence' },
 						{ text: 'FuturableTask.traverse()', link: '/api-task/traverse' },
-						{ text: 'FuturableTask.createLimiter()', link: '/api-task/create-limiter' }
+						{ text: 'FuturableTask.createLimiter()', link: '/api-task/create-limiter' },
+						{ text: 'FuturableTask.createKeyedLimiter()', link: '/api-task/create-keyed-limiter' },
+						{ text: 'FuturableTask.createRateLimiter()', link: '/api-task/create-rate-limiter' },
+						{ text: 'FuturableTask.createCircuitBreaker()', link: '/api-task/create-circuit-breaker' },
+						{ text: 'FuturableTask.memoizeFn()', link: '/api-task/memoize-fn' },
+						{ text: 'Cache Stores', link: '/api-task/cache-stores' },
+						{ text: 'FuturableTask.gen()', link: '/api-task/gen' },
+						{ text: 'FuturableTask.poll()', link: '/api-task/poll' }
+					]
+				},
+				{
+					text: 'Streams',
+					items: [
+						{ text: 'FuturableStream', link: '/api-task/stream' },
+						{ text: 'FuturableTask.fetchEvents()', link: '/api-task/fetch-events' }
 					]
 				}
 			]
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { Futurable, SafeResult } from './Futurable';
+import { Futurable, SafeResult, CancellationError, HttpError } from './Futurable';
+import { FuturableTask } from './FuturableTask';
 
 // Mock timers
 vi.useFakeTimers();
@@ -306,6 +307,106 @@ describe('Futurable', () => {
 			futurable.cancel();
 			expect(futurable.signal.aborted).toBe(true);
 		});
+
+		it('should expose the cancellation reason on the signal', () => {
+			const futurable = new Futurable(() => { });
+			futurable.cancel('stop');
+			expect(futurable.signal.reason).toBe('stop');
+		});
+
+		it('should propagate the external signal reason', () => {
+			const controller = new AbortController();
+			const futurable = new Futurable(() => { }, controller.signal);
+			controller.abort('external');
+			expect(futurable.signal.reason).toBe('external');
+		});
+
+		it('should stay pending by default', async () => {
+			const onRejected = vi.fn();
+			const futurable = new Futurable(() => { });
+			futurable.catch(onRejected);
+			futurable.cancel('stop');
+			await vi.advanceTimersByTimeAsync(10);
+			expect(onRejected).not.toHaveBeenCalled();
+		});
+
+		it('should reject with CancellationError when rejectOnCancel option is set', async () => {
+			const futurable = new Futurable<string>((resolve) => {
+				setTimeout(() => resolve('test'), 100);
+			}, { rejectOnCancel: true });
+			futurable.cancel('stop');
+			const error = await futurable.catch(err => err);
+			expect(error).toBeInstanceOf(CancellationError);
+			expect(error.reason).toBe('stop');
+			expect(error.message).toBe('stop');
+		});
+
+		it('should reject immediately when created with an aborted signal and rejectOnCancel', async () => {
+			const controller = new AbortController();
+			controller.abort('already');
+			const futurable = new Futurable(() => { }, { signal: controller.signal, rejectOnCancel: true });
+			await expect(futurable).rejects.toBeInstanceOf(CancellationError);
+		});
+
+		it('should unwind then chains and run finally blocks', async () => {
+			const onFinally = vi.fn();
+			const futurable = new Futurable<number>((resolve) => {
+				setTimeout(() => resolve(1), 100);
+			}, { rejectOnCancel: true })
+				.then(val => val * 2)
+				.finally(onFinally);
+			futurable.cancel(new Error('aborted by test'));
+			await expect(futurable).rejects.toThrow('aborted by test');
+			expect(onFinally).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe('rejectOnCancel', () => {
+		it('should return a Futurable that rejects on cancellation', async () => {
+			const futurable = Futurable.sleep({ timer: 100 }).rejectOnCancel();
+			expect(futurable).toBeInstanceOf(Futurable);
+			futurable.cancel();
+			await expect(futurable).rejects.toBeInstanceOf(CancellationError);
+		});
+
+		it('should share the cancellation controller with the source', () => {
+			const source = Futurable.sleep({ timer: 100 });
+			const futurable = source.rejectOnCancel();
+			futurable.catch(() => { });
+			futurable.cancel('reason');
+			expect(source.signal.aborted).toBe(true);
+			expect(source.signal.reason).toBe('reason');
+		});
+
+		it('should let catch handlers recover from the cancellation', async () => {
+			const futurable = Futurable.sleep({ timer: 100 })
+				.rejectOnCancel()
+				.catch(err => err instanceof CancellationError ? 'recovered' : 'unexpected');
+			futurable.cancel();
+			await expect(futurable).resolves.toBe('recovered');
+		});
+
+		it('should resolve with the source value when not cancelled', async () => {
+			const futurable = Futurable.resolve(42).rejectOnCancel();
+			await expect(futurable).resolves.toBe(42);
+		});
+	});
+
+	describe('CancellationError', () => {
+		it('should use a default message without reason', () => {
+			const error = new CancellationError();
+			expect(error).toBeInstanceOf(Error);
+			expect(error.name).toBe('CancellationError');
+			expect(error.message).toBe('Futurable was cancelled');
+			expect(error.reason).toBeUndefined();
+		});
+
+		it('should reuse the message of an Error reason', () => {
+			const reason = new Error('boom');
+			const error = new CancellationError(reason);
+			expect(error.message).toBe('boom');
+			expect(error.reason).toBe(reason);
+		});
 	});
 
 	describe('delay', () => {
@@ -444,6 +545,37 @@ describe('Futurable', () => {
 		});
 	});
 
+	describe('fetchJson, fetchText and fetchBlob (instance)', () => {
+		beforeEach(() => {
+			global.fetch = vi.fn();
+		});
+
+		it('should build the request from the value and parse the JSON body', async () => {
+			vi.mocked(global.fetch).mockResolvedValue(new Response(JSON.stringify([{ id: 1 }])));
+
+			const posts = await Futurable.resolve(42)
+				.fetchJson<{ id: number }[]>(id => `https://api.example.com/users/${id}/posts`, id => ({ headers: { 'X-User': String(id) } }));
+			expect(posts).toEqual([{ id: 1 }]);
+			expect(global.fetch).toHaveBeenCalledWith(
+				'https://api.example.com/users/42/posts',
+				expect.objectContaining({ headers: { 'X-User': '42' }, signal: expect.any(AbortSignal) })
+			);
+		});
+
+		it('should reject with an HttpError on non-2xx responses', async () => {
+			vi.mocked(global.fetch).mockResolvedValue(new Response('Forbidden', { status: 403 }));
+
+			await expect(Futurable.resolve('page').fetchText(page => `https://api.example.com/${page}`))
+				.rejects.toMatchObject({ name: 'HttpError', status: 403, body: 'Forbidden' });
+		});
+
+		it('should resolve with the body Blob', async () => {
+			vi.mocked(global.fetch).mockResolvedValue(new Response('data'));
+
+			await expect(Futurable.resolve('file').fetchBlob('https://api.example.com/file')).resolves.toBeInstanceOf(Blob);
+		});
+	});
+
 	describe('fetch (instance) - AbortError handling', () => {
 		beforeEach(() => {
 			global.fetch = vi.fn();
@@ -749,6 +881,452 @@ describe('Futurable', () => {
 		});
 	});
 
+	describe('Static: fetchJson, fetchText and fetchBlob', () => {
+		const json = (body: unknown, init?: ResponseInit) => new Response(JSON.stringify(body), {
+			...init,
+			headers: { 'Content-Type': 'application/json' }
+		});
+
+		beforeEach(() => {
+			global.fetch = vi.fn();
+		});
+
+		it('should resolve with the parsed JSON body', async () => {
+			vi.mocked(global.fetch).mockResolvedValue(json({ id: 1 }));
+
+			await expect(Futurable.fetchJson<{ id: number }>('https://api.example.com/user', { method: 'GET' }))
+				.resolves.toEqual({ id: 1 });
+			expect(global.fetch).toHaveBeenCalledWith(
+				'https://api.example.com/user',
+				expect.objectContaining({ method: 'GET', signal: expect.any(AbortSignal) })
+			);
+		});
+
+		it('should reject with an HttpError carrying status, headers and the parsed body', async () => {
+			vi.mocked(global.fetch).mockResolvedValue(json({ message: 'Not found' }, { status: 404, statusText: 'Not Found' }));
+
+			const error = await Futurable.fetchJson('https://api.example.com/user').catch(err => err) as HttpError;
+			expect(error).toBeInstanceOf(HttpError);
+			expect(error.message).toBe('Request failed with status 404 Not Found');
+			expect(error.status).toBe(404);
+			expect(error.statusText).toBe('Not Found');
+			expect(error.headers.get('content-type')).toBe('application/json');
+			expect(error.body).toEqual({ message: 'Not found' });
+		});
+
+		it('should expose non-JSON error bodies as text', async () => {
+			vi.mocked(global.fetch).mockResolvedValue(new Response('Bad gateway', { status: 502 }));
+
+			const error = await Futurable.fetchText('https://api.example.com/page').catch(err => err) as HttpError;
+			expect(error).toBeInstanceOf(HttpError);
+			expect(error.body).toBe('Bad gateway');
+		});
+
+		it('should expose malformed JSON error bodies as text', async () => {
+			vi.mocked(global.fetch).mockResolvedValue(new Response('{oops', {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' }
+			}));
+
+			const error = await Futurable.fetchJson('https://api.example.com/user').catch(err => err) as HttpError;
+			expect(error.body).toBe('{oops');
+		});
+
+		it('should resolve when the validator accepts the body', async () => {
+			const isUser = (data: unknown): data is { id: number } => typeof data === 'object' && data !== null && 'id' in data;
+			vi.mocked(global.fetch).mockResolvedValue(json({ id: 1 }));
+
+			const user = await Futurable.fetchJson('https://api.example.com/user', undefined, isUser);
+			expect(user.id).toBe(1);
+		});
+
+		it('should reject with a TypeError when the validator rejects the body', async () => {
+			const isUser = (data: unknown): data is { id: number } => typeof data === 'object' && data !== null && 'id' in data;
+			vi.mocked(global.fetch).mockResolvedValue(json([]));
+
+			await expect(Futurable.fetchJson('https://api.example.com/user', undefined, isUser)).rejects.toThrow(TypeError);
+		});
+
+		it('should resolve with the body text', async () => {
+			vi.mocked(global.fetch).mockResolvedValue(new Response('a,b,c'));
+
+			await expect(Futurable.fetchText('https://api.example.com/export.csv')).resolves.toBe('a,b,c');
+		});
+
+		it('should resolve with the body Blob', async () => {
+			vi.mocked(global.fetch).mockResolvedValue(new Response('binary', { headers: { 'Content-Type': 'image/png' } }));
+
+			const blob = await Futurable.fetchBlob('https://api.example.com/logo.png');
+			expect(blob).toBeInstanceOf(Blob);
+			expect(blob.type).toBe('image/png');
+			expect(blob.size).toBe(6);
+		});
+
+		it('should abort the request when cancelled', async () => {
+			vi.mocked(global.fetch).mockReturnValue(new Promise(() => { }));
+
+			const futurable = Futurable.fetchJson('https://api.example.com/user');
+			futurable.cancel();
+			const [, init] = vi.mocked(global.fetch).mock.calls[0];
+			expect(init?.signal?.aborted).toBe(true);
+		});
+
+		it('should not mutate the given options', async () => {
+			const controller = new AbortController();
+			vi.mocked(global.fetch).mockResolvedValue(json({}));
+
+			const opts = { signal: controller.signal, method: 'GET' };
+			await Futurable.fetchJson('https://api.example.com/user', opts);
+			expect(opts.signal).toBe(controller.signal);
+		});
+	});
+
+	describe('Static: createHttpClient', () => {
+		const okFetch = () => vi.fn<typeof fetch>().mockImplementation(() => Promise.resolve(new Response('ok')));
+		const lastCall = (fetchFn: ReturnType<typeof okFetch>) => {
+			const [url, init] = fetchFn.mock.lastCall!;
+			return { url, init: init!, headers: new Headers(init!.headers) };
+		};
+
+		it('should return lazy tasks resolving the URL against the base URL', async () => {
+			const fetchFn = okFetch();
+			const api = Futurable.createHttpClient({ baseUrl: 'https://api.example.com/v1/', fetch: fetchFn });
+			const task = api.get('/users');
+			expect(task).toBeInstanceOf(FuturableTask);
+			expect(fetchFn).not.toHaveBeenCalled();
+			const response = await task.run();
+			await expect(response.text()).resolves.toBe('ok');
+			expect(lastCall(fetchFn).url).toBe('https://api.example.com/v1/users');
+			expect(lastCall(fetchFn).init.method).toBe('GET');
+
+			await api.delete('https://other.example.com/items/1').run();
+			expect(lastCall(fetchFn).url).toBe('https://other.example.com/items/1');
+			expect(lastCall(fetchFn).init.method).toBe('DELETE');
+		});
+
+		it('should not resolve protocol-relative URLs against the base URL', async () => {
+			const fetchFn = okFetch();
+			const api = Futurable.createHttpClient({ baseUrl: 'https://api.example.com/v1', fetch: fetchFn });
+			await api.get('//cdn.example.com/assets/app.json').run();
+			expect(lastCall(fetchFn).url).toBe('//cdn.example.com/assets/app.json');
+		});
+
+		it('should merge default and request headers', async () => {
+			const fetchFn = okFetch();
+			const api = Futurable.createHttpClient({ headers: { Accept: 'application/json', 'X-App': 'web' }, fetch: fetchFn });
+			await api.get('/status', { headers: { 'X-App': 'admin' } }).run();
+			const { headers } = lastCall(fetchFn);
+			expect(headers.get('accept')).toBe('application/json');
+			expect(headers.get('x-app')).toBe('admin');
+		});
+
+		it('should send plain bodies as JSON and pass other bodies through', async () => {
+			const fetchFn = okFetch();
+			const api = Futurable.createHttpClient({ fetch: fetchFn });
+			await api.post('/users', { name: 'Ada' }).run();
+			expect(lastCall(fetchFn).init.body).toBe('{"name":"Ada"}');
+			expect(lastCall(fetchFn).headers.get('content-type')).toBe('application/json');
+
+			const form = new URLSearchParams({ name: 'Ada' });
+			await api.put('/users/1', form).run();
+			expect(lastCall(fetchFn).init.method).toBe('PUT');
+			expect(lastCall(fetchFn).init.body).toBe(form);
+			expect(lastCall(fetchFn).headers.has('content-type')).toBe(false);
+		});
+
+		it('should reject with an HttpError on non-2xx responses', async () => {
+			const fetchFn = vi.fn<typeof fetch>().mockResolvedValue(new Response('Nope', { status: 500 }));
+			const api = Futurable.createHttpClient({ fetch: fetchFn });
+			await expect(api.get('/boom').run()).rejects.toMatchObject({ name: 'HttpError', status: 500, body: 'Nope' });
+		});
+
+		it('should run async request and response interceptors in order', async () => {
+			const fetchFn = okFetch();
+			const api = Futurable.createHttpClient({
+				fetch: fetchFn,
+				interceptors: {
+					request: [
+						async request => {
+							await Promise.resolve();
+							request.headers.set('Authorization', 'Bearer token');
+							return request;
+						},
+						request => ({ ...request, url: `${request.url}?v=2` })
+					],
+					response: [async response => new Response(`${await response.text()}!`)]
+				}
+			});
+			const response = await api.get('/me').run();
+			await expect(response.text()).resolves.toBe('ok!');
+			expect(lastCall(fetchFn).url).toBe('/me?v=2');
+			expect(lastCall(fetchFn).headers.get('authorization')).toBe('Bearer token');
+		});
+
+		it('should let an error interceptor refresh the token and replay the request', async () => {
+			let token = 'expired';
+			const fetchFn = vi.fn<typeof fetch>().mockImplementation((_, init) => Promise.resolve(
+				new Headers(init?.headers).get('authorization') === 'Bearer fresh'
+					? new Response('secret')
+					: new Response('', { status: 401 })
+			));
+			const refresh = vi.fn(async () => {
+				token = 'fresh';
+			});
+			const api = Futurable.createHttpClient({
+				fetch: fetchFn,
+				interceptors: {
+					request: [request => {
+						request.headers.set('Authorization', `Bearer ${token}`);
+						return request;
+					}],
+					error: [async (error, { replay }) => {
+						if (error instanceof HttpError && error.status === 401) {
+							await refresh();
+							return replay();
+						}
+					}]
+				}
+			});
+			const response = await api.get('/secret').run();
+			await expect(response.text()).resolves.toBe('secret');
+			expect(refresh).toHaveBeenCalledTimes(1);
+			expect(fetchFn).toHaveBeenCalledTimes(2);
+		});
+
+		it('should not run the error interceptors again for a failed replay', async () => {
+			const fetchFn = vi.fn<typeof fetch>().mockImplementation(() => Promise.resolve(new Response('', { status: 401 })));
+			const onError = vi.fn((_: unknown, { replay }: { replay: () => Promise<Response> }) => replay());
+			const api = Futurable.createHttpClient({ fetch: fetchFn, interceptors: { error: [onError] } });
+			await expect(api.get('/secret').run()).rejects.toBeInstanceOf(HttpError);
+			expect(onError).toHaveBeenCalledTimes(1);
+			expect(fetchFn).toHaveBeenCalledTimes(2);
+		});
+
+		it('should pass unhandled errors on and let interceptors replace them', async () => {
+			const fetchFn = vi.fn<typeof fetch>().mockRejectedValue(new TypeError('Failed to fetch'));
+			const seen: unknown[] = [];
+			const api = Futurable.createHttpClient({
+				fetch: fetchFn,
+				interceptors: {
+					error: [
+						error => {
+							seen.push(error);
+						},
+						error => {
+							seen.push(error);
+							throw new Error('Offline');
+						}
+					]
+				}
+			});
+			await expect(api.get('/data').run()).rejects.toThrow('Offline');
+			expect(seen).toEqual([new TypeError('Failed to fetch'), new TypeError('Failed to fetch')]);
+		});
+
+		it('should abort the request when the run is cancelled', async () => {
+			const fetchFn = vi.fn<typeof fetch>().mockReturnValue(new Promise(() => { }));
+			const api = Futurable.createHttpClient({ fetch: fetchFn });
+			const run = api.get('/slow').run();
+			await vi.advanceTimersByTimeAsync(0);
+			run.cancel();
+			expect(lastCall(fetchFn).init.signal?.aborted).toBe(true);
+		});
+
+		it('should compose with FuturableTask operators', async () => {
+			const fetchFn = vi.fn<typeof fetch>()
+				.mockResolvedValueOnce(new Response('', { status: 503 }))
+				.mockResolvedValueOnce(new Response(JSON.stringify({ id: 1 })));
+			const api = Futurable.createHttpClient({ fetch: fetchFn });
+			const user = await api.get('/users/1').retry(1).map(res => res.json()).run();
+			expect(user).toEqual({ id: 1 });
+		});
+	});
+
+	describe('Static: fetchWithProgress', () => {
+		const encoder = new TextEncoder();
+		const chunked = (chunks: string[], headers?: HeadersInit) => new Response(new ReadableStream<Uint8Array>({
+			start: controller => {
+				chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+				controller.close();
+			}
+		}), { headers });
+
+		beforeEach(() => {
+			global.fetch = vi.fn();
+		});
+
+		it('should report the download progress and resolve with the assembled body', async () => {
+			vi.mocked(global.fetch).mockResolvedValue(chunked(['abc', 'de', 'f'], { 'Content-Length': '6', 'Content-Type': 'text/plain' }));
+			const onDownloadProgress = vi.fn();
+
+			const blob = await Futurable.fetchWithProgress('https://api.example.com/file', { onDownloadProgress });
+			expect(onDownloadProgress.mock.calls.map(([progress]) => progress)).toEqual([
+				{ loaded: 3, total: 6 },
+				{ loaded: 5, total: 6 },
+				{ loaded: 6, total: 6 }
+			]);
+			expect(blob.type).toBe('text/plain');
+			await expect(blob.text()).resolves.toBe('abcdef');
+		});
+
+		it('should report an undefined total without Content-Length', async () => {
+			vi.mocked(global.fetch).mockResolvedValue(chunked(['abc']));
+			const onDownloadProgress = vi.fn();
+
+			await Futurable.fetchWithProgress('https://api.example.com/file', { onDownloadProgress });
+			expect(onDownloadProgress).toHaveBeenCalledWith({ loaded: 3, total: undefined });
+		});
+
+		it('should not take the total from Content-Length for encoded or longer bodies', async () => {
+			vi.mocked(global.fetch).mockResolvedValue(chunked(['abc', 'def'], { 'Content-Length': '4', 'Content-Encoding': 'gzip' }));
+			const onDownloadProgress = vi.fn();
+
+			await Futurable.fetchWithProgress('https://api.example.com/file', { onDownloadProgress });
+			expect(onDownloadProgress.mock.calls.map(([progress]) => progress)).toEqual([
+				{ loaded: 3, total: undefined },
+				{ loaded: 6, total: undefined },
+				{ loaded: 6, total: 6 }
+			]);
+
+			vi.mocked(global.fetch).mockResolvedValue(chunked(['abc', 'def'], { 'Content-Length': '4' }));
+			onDownloadProgress.mockClear();
+			await Futurable.fetchWithProgress('https://api.example.com/file', { onDownloadProgress });
+			expect(onDownloadProgress.mock.calls.map(([progress]) => progress)).toEqual([
+				{ loaded: 3, total: 4 },
+				{ loaded: 6, total: undefined },
+				{ loaded: 6, total: 6 }
+			]);
+		});
+
+		it('should not pass the progress callbacks to fetch', async () => {
+			vi.mocked(global.fetch).mockResolvedValue(chunked([]));
+
+			await Futurable.fetchWithProgress('https://api.example.com/file', { method: 'GET', onDownloadProgress: () => { } });
+			const [, init] = vi.mocked(global.fetch).mock.calls[0];
+			expect(init).toEqual({ method: 'GET', signal: expect.any(AbortSignal) });
+		});
+
+		it('should reject with an HttpError on non-2xx responses', async () => {
+			vi.mocked(global.fetch).mockResolvedValue(new Response('Missing', { status: 404 }));
+
+			await expect(Futurable.fetchWithProgress('https://api.example.com/file')).rejects.toMatchObject({ name: 'HttpError', status: 404 });
+		});
+
+		it('should stream the request body and report the upload progress', async () => {
+			const data = 'x'.repeat(100_000);
+			let received = '';
+			vi.mocked(global.fetch).mockImplementation(async (_, init) => {
+				received = await new Response(init!.body).text();
+				return new Response('ok');
+			});
+			const onUploadProgress = vi.fn();
+
+			await Futurable.fetchWithProgress('https://api.example.com/upload', {
+				method: 'POST',
+				body: new URLSearchParams({ data }),
+				onUploadProgress
+			});
+			const [, init] = vi.mocked(global.fetch).mock.calls[0];
+			const total = 'data='.length + data.length;
+			expect(received).toBe(`data=${data}`);
+			expect(init!.body).toBeInstanceOf(ReadableStream);
+			expect(new Headers(init!.headers).get('content-type')).toContain('application/x-www-form-urlencoded');
+			expect(onUploadProgress.mock.calls.map(([progress]) => progress)).toEqual([
+				{ loaded: 65536, total },
+				{ loaded: total, total }
+			]);
+		});
+
+		it('should send the plain body without upload progress when request streams are not supported', async () => {
+			// Like Firefox and Safari: the duplex option is never read and the stream is sent as text
+			vi.stubGlobal('Request', class {
+				headers = new Headers({ 'Content-Type': 'text/plain;charset=UTF-8' });
+			});
+			vi.mocked(global.fetch).mockResolvedValue(new Response('ok'));
+			const onUploadProgress = vi.fn();
+			const body = new URLSearchParams({ data: 'x' });
+
+			try {
+				await Futurable.fetchWithProgress('https://api.example.com/upload', { method: 'POST', body, onUploadProgress });
+			} finally {
+				vi.unstubAllGlobals();
+			}
+			const [, init] = vi.mocked(global.fetch).mock.calls[0];
+			expect(init!.body).toBe(body);
+			expect(init).not.toHaveProperty('duplex');
+			expect(onUploadProgress).not.toHaveBeenCalled();
+		});
+
+		it('should resend the plain body when the streamed request fails before being read', async () => {
+			vi.mocked(global.fetch)
+				.mockRejectedValueOnce(new TypeError('net::ERR_H2_OR_QUIC_REQUIRED'))
+				.mockResolvedValueOnce(new Response('ok'));
+			const onUploadProgress = vi.fn();
+
+			const blob = await Futurable.fetchWithProgress('https://api.example.com/upload', { method: 'POST', body: 'payload', onUploadProgress });
+			await expect(blob.text()).resolves.toBe('ok');
+			const [, retried] = vi.mocked(global.fetch).mock.calls[1];
+			expect(new TextDecoder().decode(retried!.body as Uint8Array)).toBe('payload');
+			expect(new Headers(retried!.headers).get('content-type')).toContain('text/plain');
+			expect(onUploadProgress).not.toHaveBeenCalled();
+		});
+
+		it('should not resend a streamed body that was already read', async () => {
+			vi.mocked(global.fetch).mockImplementationOnce(async (_, init) => {
+				await (init!.body as ReadableStream<Uint8Array>).getReader().read();
+				throw new TypeError('Failed to fetch');
+			});
+			const onUploadProgress = vi.fn();
+
+			await expect(Futurable.fetchWithProgress('https://api.example.com/upload', { method: 'POST', body: 'payload', onUploadProgress }))
+				.rejects.toThrow('Failed to fetch');
+			expect(global.fetch).toHaveBeenCalledTimes(1);
+			expect(onUploadProgress).toHaveBeenCalledWith({ loaded: 7, total: 7 });
+		});
+
+		it('should cancel the body reader and stay pending when cancelled', async () => {
+			const cancel = vi.fn();
+			vi.mocked(global.fetch).mockResolvedValue(new Response(new ReadableStream<Uint8Array>({
+				start: controller => controller.enqueue(encoder.encode('partial')),
+				cancel
+			}), { headers: { 'Content-Length': '100' } }));
+			const onDownloadProgress = vi.fn();
+			const onSettle = vi.fn();
+
+			const download = Futurable.fetchWithProgress('https://api.example.com/file', { onDownloadProgress });
+			download.then(onSettle, onSettle);
+			// The underlying promise must not be settled with the partial body either
+			Promise.prototype.then.call(download, onSettle, onSettle);
+			await vi.advanceTimersByTimeAsync(0);
+			expect(onDownloadProgress).toHaveBeenCalledWith({ loaded: 7, total: 100 });
+			download.cancel('stop');
+			await vi.advanceTimersByTimeAsync(0);
+			expect(cancel).toHaveBeenCalledWith('stop');
+			expect(onSettle).not.toHaveBeenCalled();
+		});
+
+		it('should be available through utils with the Futurable signal', async () => {
+			vi.mocked(global.fetch).mockResolvedValue(chunked(['ok']));
+
+			const futurable = new Futurable<string>((resolve, reject, { fetchWithProgress }) => {
+				fetchWithProgress('https://api.example.com/file').then(blob => blob.text()).then(resolve, reject);
+			});
+			await expect(futurable).resolves.toBe('ok');
+		});
+
+		it('should abort the request through utils when the Futurable is cancelled', async () => {
+			vi.mocked(global.fetch).mockReturnValue(new Promise(() => { }));
+
+			const futurable = new Futurable<Blob>((resolve, reject, { fetchWithProgress }) => {
+				fetchWithProgress('https://api.example.com/file').then(resolve, reject);
+			});
+			await vi.advanceTimersByTimeAsync(0);
+			futurable.cancel();
+			const [, init] = vi.mocked(global.fetch).mock.calls[0];
+			expect(init!.signal!.aborted).toBe(true);
+		});
+	});
+
 	describe('Static: futurizable', () => {
 		it('should convert Promise to Futurable', async () => {
 			const promise = Promise.resolve(42);
@@ -1017,6 +1595,18 @@ describe('Futurable', () => {
 			expect(futurable.signal.aborted).toBe(true);
 		});
 
+		it('should not cancel a poll that already settled on controller cancel', async () => {
+			const futurable = Futurable.resolve('test');
+			const controller = Futurable.polling(() => futurable, {
+				interval: 100,
+				immediate: true,
+			});
+
+			await vi.advanceTimersByTimeAsync(10);
+			controller.cancel();
+			expect(futurable.signal.aborted).toBe(false);
+		});
+
 		it('should work with external signal', async () => {
 			const externalController = new AbortController();
 			const pollFn = vi.fn(() => 'polled');
@@ -1031,6 +1621,348 @@ describe('Futurable', () => {
 
 			controller.cancel();
 		});
+
+		it('should stop polling when the external signal is aborted', async () => {
+			const externalController = new AbortController();
+			const pollFn = vi.fn(() => 'polled');
+
+			Futurable.polling(pollFn, {
+				interval: 100,
+				signal: externalController.signal,
+			});
+
+			await vi.advanceTimersByTimeAsync(100);
+			externalController.abort();
+			await vi.advanceTimersByTimeAsync(300);
+			expect(pollFn).toHaveBeenCalledTimes(1);
+		});
+
+		it('should deliver results to onResult', async () => {
+			const onResult = vi.fn();
+			let count = 0;
+			const controller = Futurable.polling(() => Promise.resolve(++count), {
+				interval: 100,
+				immediate: true,
+				onResult,
+			});
+
+			await vi.advanceTimersByTimeAsync(200);
+			expect(onResult.mock.calls).toEqual([[1], [2], [3]]);
+			controller.cancel();
+		});
+
+		it('should resolve result with the value satisfying until and stop polling', async () => {
+			let count = 0;
+			const pollFn = vi.fn(() => Futurable.resolve(++count));
+			const controller = Futurable.polling(pollFn, {
+				interval: 100,
+				until: value => value === 3,
+			});
+
+			const result = controller.result;
+			await vi.advanceTimersByTimeAsync(300);
+			await expect(result).resolves.toBe(3);
+			await vi.advanceTimersByTimeAsync(500);
+			expect(pollFn).toHaveBeenCalledTimes(3);
+		});
+
+		it('should support async until conditions', async () => {
+			let count = 0;
+			const controller = Futurable.polling(() => ++count, {
+				interval: 100,
+				until: async value => value >= 2,
+			});
+
+			await vi.advanceTimersByTimeAsync(200);
+			await expect(controller.result).resolves.toBe(2);
+		});
+
+		it('should not start a poll while an async until condition is pending', async () => {
+			for (const mode of ['interval', 'fixed-rate', 'fixed-delay'] as const) {
+				let count = 0;
+				const pollFn = vi.fn(() => ++count);
+				const until = vi.fn((value: number) => new Promise<boolean>(resolve => setTimeout(() => resolve(value >= 2), 150)));
+				const controller = Futurable.polling(pollFn, { interval: 100, mode, until });
+
+				await vi.advanceTimersByTimeAsync(249);
+				expect(pollFn).toHaveBeenCalledTimes(1);
+				await vi.advanceTimersByTimeAsync(10);
+				expect(pollFn).toHaveBeenCalledTimes(2);
+				await vi.advanceTimersByTimeAsync(1000);
+				await expect(controller.result).resolves.toBe(2);
+				expect(pollFn).toHaveBeenCalledTimes(2);
+				expect(until).toHaveBeenCalledTimes(2);
+			}
+		});
+
+		it('should reject result after maxErrors consecutive failures', async () => {
+			const errorHandler = vi.fn();
+			const pollFn = vi.fn(() => Promise.reject(new Error('down')));
+			const controller = Futurable.polling(pollFn, {
+				interval: 100,
+				maxErrors: 3,
+			});
+			controller.catch(errorHandler);
+
+			await vi.advanceTimersByTimeAsync(300);
+			await expect(controller.result).rejects.toThrow('down');
+			expect(errorHandler).toHaveBeenCalledTimes(3);
+			await vi.advanceTimersByTimeAsync(500);
+			expect(pollFn).toHaveBeenCalledTimes(3);
+		});
+
+		it('should reset the error budget after a successful poll', async () => {
+			const outcomes = [false, false, true, false, false, true];
+			const pollFn = vi.fn(() => outcomes.shift() ? Promise.resolve('ok') : Promise.reject('fail'));
+			const controller = Futurable.polling(pollFn, {
+				interval: 100,
+				maxErrors: 3,
+			});
+			controller.catch(() => {});
+
+			await vi.advanceTimersByTimeAsync(600);
+			expect(pollFn).toHaveBeenCalledTimes(6);
+			controller.cancel();
+		});
+
+		it('should back off exponentially on errors and recover after a success', async () => {
+			const outcomes = [false, false, true];
+			const calls: number[] = [];
+			const start = Date.now();
+			const controller = Futurable.polling(() => {
+				calls.push(Date.now() - start);
+				return outcomes.shift() === false ? Promise.reject('fail') : Promise.resolve('ok');
+			}, {
+				interval: 100,
+				backoff: { factor: 2, maxInterval: 300 },
+			});
+			controller.catch(() => {});
+
+			await vi.advanceTimersByTimeAsync(800);
+			// 100: fail -> wait 200; 300: fail -> wait 300 (capped); 600: ok -> wait 100
+			expect(calls).toEqual([100, 300, 600, 700, 800]);
+			controller.cancel();
+		});
+
+		it('should apply jitter to the interval', async () => {
+			vi.spyOn(Math, 'random').mockReturnValue(1);
+			const pollFn = vi.fn(() => 'polled');
+			const controller = Futurable.polling(pollFn, {
+				interval: 100,
+				jitter: 0.5,
+			});
+
+			await vi.advanceTimersByTimeAsync(149);
+			expect(pollFn).not.toHaveBeenCalled();
+			await vi.advanceTimersByTimeAsync(1);
+			expect(pollFn).toHaveBeenCalledTimes(1);
+			controller.cancel();
+			vi.mocked(Math.random).mockRestore();
+		});
+
+		it('should be iterable over the results, ending when until is satisfied', async () => {
+			let count = 0;
+			const controller = Futurable.polling(() => Futurable.resolve(++count), {
+				interval: 100,
+				immediate: true,
+				until: value => value === 3,
+			});
+
+			const values: number[] = [];
+			const loop = (async () => {
+				for await (const value of controller) {
+					values.push(value);
+				}
+			})();
+			await vi.advanceTimersByTimeAsync(200);
+			await loop;
+			expect(values).toEqual([1, 2, 3]);
+		});
+
+		it('should throw from the iteration when the error budget is exhausted', async () => {
+			const controller = Futurable.polling(() => {
+				throw new Error('broken');
+			}, {
+				interval: 100,
+				maxErrors: 2,
+			});
+			controller.catch(() => {});
+
+			const loop = (async () => {
+				for await (const _ of controller) {
+					// no results
+				}
+			})();
+			const result = expect(loop).rejects.toThrow('broken');
+			await vi.advanceTimersByTimeAsync(200);
+			await result;
+		});
+
+		it('should cancel the polling when the consumer breaks', async () => {
+			const pollFn = vi.fn(() => 'polled');
+			const controller = Futurable.polling(pollFn, {
+				interval: 100,
+				immediate: true,
+			});
+
+			for await (const value of controller) {
+				expect(value).toBe('polled');
+				break;
+			}
+			await vi.advanceTimersByTimeAsync(500);
+			expect(pollFn).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe('Static: polling (modes, pause and trigger)', () => {
+		const slowPoll = (duration: number, starts: number[], start = Date.now()) => vi.fn(() => {
+			starts.push(Date.now() - start);
+			return Futurable.delay({ cb: () => starts.length, timer: duration });
+		});
+
+		it('should cancel a poll still running when the next one starts in interval mode', async () => {
+			const starts: number[] = [];
+			const onResult = vi.fn();
+			const controller = Futurable.polling(slowPoll(150, starts), {
+				interval: 100,
+				onResult,
+			});
+
+			await vi.advanceTimersByTimeAsync(400);
+			expect(starts).toEqual([100, 200, 300, 400]);
+			expect(onResult).not.toHaveBeenCalled();
+			controller.cancel();
+		});
+
+		it('should wait for the previous poll in fixed-rate mode', async () => {
+			const starts: number[] = [];
+			const onResult = vi.fn();
+			const controller = Futurable.polling(slowPoll(150, starts), {
+				interval: 100,
+				mode: 'fixed-rate',
+				onResult,
+			});
+
+			await vi.advanceTimersByTimeAsync(450);
+			// Late polls start as soon as the previous one settles
+			expect(starts).toHaveLength(3);
+			expect(starts[0]).toBe(100);
+			expect(starts[1] - starts[0]).toBeGreaterThanOrEqual(150);
+			expect(starts[1] - starts[0]).toBeLessThan(160);
+			expect(starts[2] - starts[1]).toBeGreaterThanOrEqual(150);
+			expect(onResult.mock.calls).toEqual([[1], [2]]);
+			controller.cancel();
+		});
+
+		it('should keep the rate in fixed-rate mode when polls are fast', async () => {
+			const starts: number[] = [];
+			const controller = Futurable.polling(slowPoll(30, starts), {
+				interval: 100,
+				mode: 'fixed-rate',
+			});
+
+			await vi.advanceTimersByTimeAsync(300);
+			expect(starts).toEqual([100, 200, 300]);
+			controller.cancel();
+		});
+
+		it('should wait the interval after each poll settles in fixed-delay mode', async () => {
+			const starts: number[] = [];
+			const controller = Futurable.polling(slowPoll(50, starts), {
+				interval: 100,
+				mode: 'fixed-delay',
+				immediate: true,
+			});
+
+			await vi.advanceTimersByTimeAsync(450);
+			expect(starts).toEqual([0, 150, 300, 450]);
+			controller.cancel();
+		});
+
+		it('should stop scheduling polls while paused and poll immediately when resumed if overdue', async () => {
+			const pollFn = vi.fn(() => 'polled');
+			const controller = Futurable.polling(pollFn, { interval: 100 });
+
+			await vi.advanceTimersByTimeAsync(100);
+			controller.pause();
+			expect(controller.isPaused).toBe(true);
+			await vi.advanceTimersByTimeAsync(500);
+			expect(pollFn).toHaveBeenCalledTimes(1);
+
+			controller.resume();
+			expect(controller.isPaused).toBe(false);
+			await vi.advanceTimersByTimeAsync(0);
+			expect(pollFn).toHaveBeenCalledTimes(2);
+			await vi.advanceTimersByTimeAsync(100);
+			expect(pollFn).toHaveBeenCalledTimes(3);
+			controller.cancel();
+		});
+
+		it('should not cancel the running poll when paused', async () => {
+			const starts: number[] = [];
+			const onResult = vi.fn();
+			const controller = Futurable.polling(slowPoll(50, starts), {
+				interval: 100,
+				onResult,
+			});
+
+			await vi.advanceTimersByTimeAsync(120);
+			controller.pause();
+			await vi.advanceTimersByTimeAsync(100);
+			expect(onResult).toHaveBeenCalledWith(1);
+			expect(starts).toEqual([100]);
+			controller.cancel();
+		});
+
+		it('should poll immediately on trigger and restart the interval', async () => {
+			const pollFn = vi.fn(() => 'polled');
+			const controller = Futurable.polling(pollFn, { interval: 100 });
+
+			await vi.advanceTimersByTimeAsync(60);
+			controller.trigger();
+			expect(pollFn).toHaveBeenCalledTimes(1);
+			await vi.advanceTimersByTimeAsync(99);
+			expect(pollFn).toHaveBeenCalledTimes(1);
+			await vi.advanceTimersByTimeAsync(1);
+			expect(pollFn).toHaveBeenCalledTimes(2);
+			controller.cancel();
+		});
+
+		it('should poll on trigger while paused without resuming', async () => {
+			const pollFn = vi.fn(() => 'polled');
+			const controller = Futurable.polling(pollFn, { interval: 100 });
+
+			controller.pause();
+			controller.trigger();
+			expect(pollFn).toHaveBeenCalledTimes(1);
+			await vi.advanceTimersByTimeAsync(500);
+			expect(pollFn).toHaveBeenCalledTimes(1);
+			controller.cancel();
+		});
+
+		it('should ignore trigger while a poll is running in non-overlapping modes', async () => {
+			const starts: number[] = [];
+			const pollFn = slowPoll(150, starts);
+			const controller = Futurable.polling(pollFn, {
+				interval: 100,
+				mode: 'fixed-delay',
+				immediate: true,
+			});
+
+			await vi.advanceTimersByTimeAsync(50);
+			controller.trigger();
+			expect(pollFn).toHaveBeenCalledTimes(1);
+			controller.cancel();
+		});
+
+		it('should ignore trigger after cancel', () => {
+			const pollFn = vi.fn(() => 'polled');
+			const controller = Futurable.polling(pollFn, { interval: 100 });
+
+			controller.cancel();
+			controller.trigger();
+			expect(pollFn).not.toHaveBeenCalled();
+		});
 	});
 
 	describe('Static: withResolvers', () => {
@@ -1069,6 +2001,214 @@ describe('Futurable', () => {
 		});
 	});
 
+	describe('Static: scope', () => {
+		const after = <T>(ms: number, value: T, onCancel?: () => void) => (resolve: (value: T) => void, _: unknown, utils: { onCancel: (cb: () => void) => void }) => {
+			const id = setTimeout(() => resolve(value), ms);
+			utils.onCancel(() => {
+				clearTimeout(id);
+				onCancel?.();
+			});
+		};
+
+		it('should resolve with the body result', async () => {
+			const result = Futurable.scope(async (scope) => {
+				const a = scope.launch(after(100, 1));
+				const b = scope.run(FuturableTask.resolve(2));
+				return await a + await b;
+			});
+			await vi.advanceTimersByTimeAsync(100);
+			await expect(result).resolves.toBe(3);
+		});
+
+		it('should not settle until every child has settled', async () => {
+			const onResolved = vi.fn();
+			Futurable.scope((scope) => {
+				scope.launch(after(500, 'background'));
+				return 'done';
+			}).then(onResolved);
+
+			await vi.advanceTimersByTimeAsync(499);
+			expect(onResolved).not.toHaveBeenCalled();
+			await vi.advanceTimersByTimeAsync(1);
+			expect(onResolved).toHaveBeenCalledWith('done');
+		});
+
+		it('should cancel siblings and reject on the first child failure', async () => {
+			const siblingCancelled = vi.fn();
+			const error = new Error('child failed');
+			const result = Futurable.scope(async (scope) => {
+				scope.launch(after(1000, 'slow', siblingCancelled));
+				scope.run(FuturableTask.of(async () => {
+					throw error;
+				}));
+			});
+
+			await expect(result).rejects.toBe(error);
+			expect(siblingCancelled).toHaveBeenCalledTimes(1);
+		});
+
+		it('should unwind the body awaiting a cancelled sibling', async () => {
+			const cleanup = vi.fn();
+			const error = new Error('boom');
+			const result = Futurable.scope(async (scope) => {
+				const slow = scope.launch(after(1000, 'slow'));
+				scope.launch((_, reject) => setTimeout(() => reject(error), 100));
+				try {
+					await slow;
+				} finally {
+					cleanup();
+				}
+			});
+			const assertion = expect(result).rejects.toBe(error);
+
+			await vi.advanceTimersByTimeAsync(100);
+			await assertion;
+			expect(cleanup).toHaveBeenCalledTimes(1);
+		});
+
+		it('should cancel siblings when the body throws', async () => {
+			const childCancelled = vi.fn();
+			const result = Futurable.scope((scope) => {
+				scope.launch(after(1000, 'slow', childCancelled));
+				throw new Error('body failed');
+			});
+
+			await expect(result).rejects.toThrow('body failed');
+			expect(childCancelled).toHaveBeenCalledTimes(1);
+		});
+
+		it('should cancel the whole tree when the scope is cancelled', async () => {
+			const cancelled = vi.fn();
+			const onSettled = vi.fn();
+			const result = Futurable.scope(async (scope) => {
+				scope.launch(after(1000, 1, cancelled));
+				scope.run(new FuturableTask<number>(after(1000, 2, cancelled)));
+			});
+			result.then(onSettled, onSettled);
+
+			result.cancel();
+			await vi.advanceTimersByTimeAsync(1000);
+			expect(cancelled).toHaveBeenCalledTimes(2);
+			expect(onSettled).not.toHaveBeenCalled();
+		});
+
+		it('should cancel the tree when the external signal aborts', async () => {
+			const controller = new AbortController();
+			const cancelled = vi.fn();
+			Futurable.scope((scope) => {
+				scope.launch(after(1000, 1, cancelled));
+			}, controller.signal);
+
+			controller.abort();
+			expect(cancelled).toHaveBeenCalledTimes(1);
+		});
+
+		it('should not fail the scope when a child is cancelled on its own', async () => {
+			const result = Futurable.scope(async (scope) => {
+				scope.launch(after(1000, 'cancelled')).cancel();
+				return await scope.launch(after(100, 'kept'));
+			});
+			await vi.advanceTimersByTimeAsync(100);
+			await expect(result).resolves.toBe('kept');
+		});
+	});
+
+	describe('Static: gen', () => {
+		it('should resolve yielded values and return the generator result', async () => {
+			const result = Futurable.gen(function* ({ sleep }) {
+				const a: number = yield Futurable.resolve(1);
+				const b: number = yield Promise.resolve(2);
+				const c: number = yield 3;
+				yield sleep(100);
+				return a + b + c;
+			});
+			await vi.advanceTimersByTimeAsync(100);
+			await expect(result).resolves.toBe(6);
+		});
+
+		it('should throw rejections at the yield expression', async () => {
+			const result = Futurable.gen(function* () {
+				try {
+					yield Promise.reject(new Error('boom'));
+					return 'unreachable';
+				} catch (error) {
+					return `caught ${(error as Error).message}`;
+				}
+			});
+			await expect(result).resolves.toBe('caught boom');
+		});
+
+		it('should reject when the generator throws', async () => {
+			const result = Futurable.gen(function* () {
+				yield 1;
+				throw new Error('failed');
+			});
+			await expect(result).rejects.toThrow('failed');
+		});
+
+		it('should stop resuming, run finally blocks and cancel the current yield on cancel', async () => {
+			const afterSleep = vi.fn();
+			const cleanup = vi.fn();
+			const yieldedCancelled = vi.fn();
+			const result = Futurable.gen(function* () {
+				try {
+					yield new Futurable((resolve, _, utils) => {
+						const id = setTimeout(resolve, 1000);
+						utils.onCancel(() => {
+							clearTimeout(id);
+							yieldedCancelled();
+						});
+					});
+					afterSleep();
+				} finally {
+					cleanup();
+				}
+			});
+
+			await vi.advanceTimersByTimeAsync(100);
+			result.cancel();
+			await vi.advanceTimersByTimeAsync(1000);
+
+			expect(yieldedCancelled).toHaveBeenCalledTimes(1);
+			expect(cleanup).toHaveBeenCalledTimes(1);
+			expect(afterSleep).not.toHaveBeenCalled();
+		});
+
+		it('should not resume after a non-Futurable yield when cancelled', async () => {
+			const afterYield = vi.fn();
+			const result = Futurable.gen(function* () {
+				yield new Promise(resolve => setTimeout(resolve, 100));
+				afterYield();
+			});
+
+			result.cancel();
+			await vi.advanceTimersByTimeAsync(100);
+			expect(afterYield).not.toHaveBeenCalled();
+		});
+
+		it('should reject with a CancellationError in rejectOnCancel mode', async () => {
+			const result = Futurable.gen(function* ({ sleep }) {
+				yield sleep(1000);
+			}).rejectOnCancel();
+
+			result.cancel('stop');
+			await expect(result).rejects.toBeInstanceOf(CancellationError);
+		});
+
+		it('should tolerate cancellation from inside the generator', async () => {
+			const afterCancel = vi.fn();
+			const result = Futurable.gen(function* ({ cancel }) {
+				yield 1;
+				cancel();
+				yield 2;
+				afterCancel();
+			});
+			await vi.advanceTimersByTimeAsync(0);
+			expect(result.signal.aborted).toBe(true);
+			expect(afterCancel).not.toHaveBeenCalled();
+		});
+	});
+
 	describe('Static: safe', () => {
 		it('should return success result on resolve', async () => {
 			const result = await Futurable.safe<number>((resolve) => {
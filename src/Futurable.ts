@@ -1,3 +1,5 @@
+import { FuturableTask } from "./FuturableTask";
+
 /**
  * Result type for safe operations that may succeed or fail.
  * Provides a discriminated union for type-safe error handling without try-catch.
@@ -66,8 +68,10 @@ export interface FuturableUtils<T> {
 	/**
 	* Cancels the Futurable if it is pending or currently executing.
 	* Triggers the abort signal and executes any registered onCancel callbacks.
+	*
+	* @param reason - Optional cancellation reason, exposed through `signal.reason`
 	*/
-	cancel: () => void;
+	cancel: (reason?: any) => void;
 	/**
 	* Registers a callback to be executed when the Futurable is cancelled.
 	* Multiple callbacks can be registered and will be executed in order.
@@ -104,6 +108,15 @@ export interface FuturableUtils<T> {
 	*/
 	fetch: (url: string, opts?: RequestInit) => Futurable<Response>;
 	/**
+	* Fetch that reports the upload and download progress and resolves with the body as a Blob.
+	* The request and the body reader are aborted if the Futurable is cancelled.
+	*
+	* @param url - The URL to fetch
+	* @param opts - Optional Fetch API options with the progress callbacks (signal will be automatically provided)
+	* @returns A Futurable that resolves with the body Blob
+	*/
+	fetchWithProgress: (url: string, opts?: FuturableProgressOptions) => Futurable<Blob>;
+	/**
 	* Converts a standard Promise into a Futurable with cancellation support.
 	* The original Promise cannot be cancelled, but the Futurable wrapper can be.
 	*
@@ -129,6 +142,18 @@ export type FuturableExecutor<T> = (
 	utils: FuturableUtils<T>
 ) => void;
 
+/**
+* Configuration options accepted by the Futurable constructor in place of a bare AbortSignal.
+*
+* @property signal - Optional external AbortSignal that cancels the Futurable when aborted
+* @property rejectOnCancel - If true, cancellation rejects the Futurable with a CancellationError
+*                           instead of leaving it pending forever
+*/
+export interface FuturableOptions {
+	signal?: AbortSignal;
+	rejectOnCancel?: boolean;
+}
+
 /**
 * An iterable collection of values that can be Futurables, Promises, or plain values.
 * Used by static methods like Futurable.all(), Futurable.race(), etc.
@@ -150,21 +175,328 @@ export interface FuturableWithResolvers<T> {
 	resolve: (value: T | PromiseLike<T> | FuturableLike<T>) => void;
 	/** Function to reject the Futurable with a reason */
 	reject: (reason?: any) => void;
-	/** Function to cancel the Futurable */
-	cancel: () => void;
+	/** Function to cancel the Futurable, optionally with a reason */
+	cancel: (reason?: any) => void;
 	/** Utility object with advanced Futurable features */
 	utils: FuturableUtils<T>;
 }
 
+/**
+* Options of Futurable.polling().
+*
+* @template T - Type returned by the polling function
+*/
+export interface FuturablePollingOptions<T> {
+	/** Interval between polls in milliseconds */
+	interval: number;
+	/** Optional AbortSignal to stop polling */
+	signal?: AbortSignal;
+	/** If true, executes the function immediately before starting the interval */
+	immediate?: boolean;
+	/** Called with the result of every successful poll */
+	onResult?: (result: T) => void;
+	/**
+	* Stop condition: when it returns true for a result, polling stops and the
+	* controller's `result` resolves with that value. While an async condition is
+	* pending, no poll starts: a poll that falls due waits for the answer.
+	*/
+	until?: (result: T) => boolean | Promise<boolean>;
+	/**
+	* Number of consecutive failed polls after which polling stops and the controller's
+	* `result` rejects with the last error (default: Infinity)
+	*/
+	maxErrors?: number;
+	/**
+	* Exponential backoff on errors: after n consecutive failures the next poll waits
+	* `interval * factor^n` ms (default factor: 2), capped at `maxInterval`.
+	* The interval goes back to normal after a successful poll.
+	*/
+	backoff?: { factor?: number, maxInterval?: number };
+	/**
+	* Randomization applied to every wait, as a ratio of it (0 to 1, default: 0).
+	* With `jitter: 0.2`, a 1000ms interval becomes a random wait between 800ms and 1200ms.
+	*/
+	jitter?: number;
+	/**
+	* Scheduling of the polls (default: "interval"):
+	* - `interval`: a poll starts every `interval` ms; a poll still running when the next one starts is cancelled
+	* - `fixed-rate`: a poll starts every `interval` ms, but never while the previous one is running:
+	*   a late poll starts as soon as the previous one settles
+	* - `fixed-delay`: each poll starts `interval` ms after the previous one settled
+	*/
+	mode?: FuturablePollingMode;
+}
+
+/**
+* Scheduling strategy of Futurable.polling().
+* See the `mode` option of FuturablePollingOptions.
+*/
+export type FuturablePollingMode = "interval" | "fixed-rate" | "fixed-delay";
+
 /**
 * Return type of Futurable.polling() static method.
-* Provides controls for a polling operation.
+* Provides controls for a polling operation and access to its results.
+*
+* It is an async iterable over the results of the successful polls: the iteration ends when
+* polling stops, and throws the last error when the error budget is exhausted.
+* Breaking out of the iteration cancels the polling.
+*
+* @template T - Type returned by the polling function
 */
-export interface FuturablePollingController {
+export interface FuturablePollingController<T = unknown> extends AsyncIterable<T> {
 	/** Stops the polling and cancels any pending operations */
 	cancel: () => void;
 	/** Registers an error handler for polling operations */
 	catch: (onrejected: (reason: unknown) => void) => void;
+	/**
+	* Futurable resolving with the result that satisfied the `until` condition, or rejecting
+	* with the last error once `maxErrors` consecutive polls fail. Stays pending if the
+	* polling is cancelled.
+	*/
+	readonly result: Futurable<T>;
+	/** Whether the polling is paused */
+	readonly isPaused: boolean;
+	/** Stops scheduling polls until resume() is called. A poll already running is not cancelled */
+	pause: () => void;
+	/** Resumes a paused polling. If a poll is overdue, it runs immediately */
+	resume: () => void;
+	/**
+	* Runs a poll immediately, also while paused, and restarts the interval from now.
+	* Ignored if the polling was stopped or, in the fixed-rate and fixed-delay modes, a poll is running.
+	*/
+	trigger: () => void;
+}
+
+/**
+* Handle passed to the body of Futurable.scope(), used to launch child work owned by the scope.
+* Children are cancelled together with the scope, and the scope does not settle until all of them settle.
+*/
+export interface FuturableScope {
+	/** AbortSignal aborted when the scope is cancelled or one of its children fails */
+	signal: AbortSignal;
+	/**
+	* Launches a child Futurable owned by the scope.
+	* The child rejects with a CancellationError when the scope cancels it, so awaiting it unwinds the body.
+	*
+	* @param executor - The executor of the child Futurable
+	* @returns The child Futurable
+	*/
+	launch: <R>(executor: FuturableExecutor<R>) => Futurable<R>;
+	/**
+	* Runs a FuturableTask as a child owned by the scope.
+	* The execution rejects with a CancellationError when the scope cancels it.
+	*
+	* @param task - The task to run
+	* @returns The Futurable of the execution
+	*/
+	run: <R>(task: FuturableTask<R>) => Futurable<R>;
+	/**
+	* Cancels the scope and every child.
+	*
+	* @param reason - Optional cancellation reason
+	*/
+	cancel: (reason?: any) => void;
+}
+
+/**
+* A request as seen by the interceptors of an HTTP client created with Futurable.createHttpClient().
+* The URL is already resolved against the base URL and the headers already merged with the defaults.
+*/
+export interface FuturableHttpRequest extends Omit<RequestInit, "headers" | "method" | "signal"> {
+	url: string;
+	method: string;
+	headers: Headers;
+}
+
+/**
+* Interceptors of an HTTP client, run in array order. Every interceptor may be async.
+*
+* @property request - Transform a request before it is sent (e.g. add an auth header)
+* @property response - Transform a 2xx response before it is delivered
+* @property error - Handle a failed request: non-2xx responses arrive as an HttpError. Return a Response to recover
+*                   (e.g. from `replay()` after refreshing a token), return nothing to pass the error on, or throw
+*                   to replace it. `replay()` sends the request again through the request and response interceptors,
+*                   but not through the error interceptors.
+*/
+export interface FuturableHttpInterceptors {
+	request?: ((request: FuturableHttpRequest) => FuturableHttpRequest | Promise<FuturableHttpRequest>)[];
+	response?: ((response: Response, request: FuturableHttpRequest) => Response | Promise<Response>)[];
+	error?: ((error: unknown, context: { request: FuturableHttpRequest, replay: () => Promise<Response> }) => Response | void | Promise<Response | void>)[];
+}
+
+/**
+* Configuration options for Futurable.createHttpClient().
+*
+* @property baseUrl - Base URL that relative request URLs are resolved against
+* @property headers - Default headers sent with every request
+* @property fetch - Fetch implementation used to send the requests (default: the global fetch)
+* @property interceptors - Request, response and error interceptors
+*/
+export interface FuturableHttpClientOptions {
+	baseUrl?: string;
+	headers?: HeadersInit;
+	fetch?: typeof fetch;
+	interceptors?: FuturableHttpInterceptors;
+}
+
+/**
+* HTTP client returned by Futurable.createHttpClient().
+* Every method returns a lazy FuturableTask: the request is sent on `run()` and aborted when the run is cancelled.
+* Bodies that are not strings, Blobs, FormData, URLSearchParams, buffers or streams are sent as JSON.
+*/
+export interface FuturableHttpClient {
+	get: (url: string, init?: RequestInit) => FuturableTask<Response>;
+	post: (url: string, body?: unknown, init?: RequestInit) => FuturableTask<Response>;
+	put: (url: string, body?: unknown, init?: RequestInit) => FuturableTask<Response>;
+	delete: (url: string, init?: RequestInit) => FuturableTask<Response>;
+}
+
+/**
+* Progress of a transfer reported by fetchWithProgress().
+*
+* @property loaded - Bytes transferred so far
+* @property total - Total bytes to transfer. For downloads, undefined until the body ends if the server sent
+*                   no Content-Length, or sent it for a compressed body (Content-Encoding)
+*/
+export interface FuturableProgress {
+	loaded: number;
+	total: number | undefined;
+}
+
+/**
+* Fetch options accepted by fetchWithProgress().
+*
+* @property onDownloadProgress - Called every time a chunk of the response body is received
+* @property onUploadProgress - Called every time fetch takes a chunk of the request body, which is then streamed.
+*                              Not called where request streams are not supported: the body is sent as is
+*/
+export interface FuturableProgressOptions extends RequestInit {
+	onDownloadProgress?: (progress: FuturableProgress) => void;
+	onUploadProgress?: (progress: FuturableProgress) => void;
+}
+
+/**
+* Runtime check applied to a parsed JSON body by the fetchJson() helpers.
+* A body for which the guard returns false rejects the request with a TypeError.
+*
+* @template T - The type the guard narrows the body to
+* @param data - The parsed JSON body
+*/
+export type FuturableResponseValidator<T> = (data: unknown) => data is T;
+
+/**
+* Error used to reject a Futurable that was cancelled while in `rejectOnCancel` mode.
+* The original cancellation reason (the value passed to `cancel()`, or the aborted
+* signal's reason) is available through the `reason` property.
+*
+* @example
+* ```typescript
+* const futurable = new Futurable(resolve => {
+*   setTimeout(() => resolve('done'), 5000);
+* }, { rejectOnCancel: true });
+*
+* futurable.cancel('User navigated away');
+*
+* try {
+*   await futurable;
+* } catch (err) {
+*   if (err instanceof CancellationError) {
+*     console.log(err.reason); // 'User navigated away'
+*   }
+* }
+* ```
+*/
+export class CancellationError extends Error {
+	/**
+	* The reason the Futurable was cancelled with.
+	*/
+	readonly reason: unknown;
+
+	constructor(reason?: unknown) {
+		super(
+			reason instanceof Error
+				? reason.message
+				: typeof reason === "string"
+					? reason
+					: "Futurable was cancelled"
+		);
+		this.name = "CancellationError";
+		this.reason = reason;
+	}
+}
+
+/**
+* Error used to reject the fetchJson(), fetchText() and fetchBlob() helpers when the
+* server answers with a non-2xx status. The body is read and parsed before rejecting:
+* JSON bodies are parsed, anything else is exposed as text.
+*
+* @template B - The type of the parsed error body
+*
+* @example
+* ```typescript
+* try {
+*   const user = await Futurable.fetchJson<User>('/api/users/42');
+* } catch (err) {
+*   if (err instanceof HttpError && err.status === 404) {
+*     console.log(err.body); // { message: 'User not found' }
+*   }
+* }
+* ```
+*/
+export class HttpError<B = unknown> extends Error {
+	/**
+	* The HTTP status code of the response.
+	*/
+	readonly status: number;
+	/**
+	* The HTTP status text of the response.
+	*/
+	readonly statusText: string;
+	/**
+	* The URL of the response.
+	*/
+	readonly url: string;
+	/**
+	* The headers of the response.
+	*/
+	readonly headers: Headers;
+	/**
+	* The parsed body of the response, undefined if it could not be read.
+	*/
+	readonly body: B;
+
+	constructor(response: Response, body: B) {
+		super(`Request failed with status ${response.status}${response.statusText ? ` ${response.statusText}` : ""}`);
+		this.name = "HttpError";
+		this.status = response.status;
+		this.statusText = response.statusText;
+		this.url = response.url;
+		this.headers = response.headers;
+		this.body = body;
+	}
+
+	/**
+	* Creates an HttpError from a response, reading and parsing its body.
+	*
+	* @param response - The non-2xx response
+	* @returns A Promise resolving with the HttpError
+	*/
+	static async fromResponse(response: Response): Promise<HttpError> {
+		let text: string;
+		try {
+			text = await response.text();
+		} catch {
+			return new HttpError(response, undefined);
+		}
+		if (text && response.headers.get("content-type")?.includes("json")) {
+			try {
+				return new HttpError(response, JSON.parse(text));
+			} catch {
+				// Malformed JSON: fall back to the raw text
+			}
+		}
+		return new HttpError(response, text);
+	}
 }
 
 /**
@@ -195,17 +527,21 @@ export class Futurable<T> extends Promise<T> {
 	private controller;
 	private internalSignal;
 	private idsTimeout;
+	private rejectOnCancelMode;
 
-	constructor(executor: FuturableExecutor<T>, signal?: AbortSignal) {
+	constructor(executor: FuturableExecutor<T>, signalOrOptions?: AbortSignal | FuturableOptions) {
+		const { signal, rejectOnCancel = false } = signalOrOptions instanceof AbortSignal
+			? { signal: signalOrOptions }
+			: (signalOrOptions || {});
 		const controller: AbortController = new AbortController();
 		const sign = controller!.signal;
 		const idsTimeout: ReturnType<typeof setTimeout>[] = [];
 
 		if (signal) {
 			if (signal.aborted) {
-				controller.abort();
+				controller.abort(signal.reason);
 			} else {
-				signal.addEventListener('abort', () => controller.abort(), { once: true });
+				signal.addEventListener('abort', () => controller.abort(signal.reason), { once: true });
 			}
 		}
 
@@ -224,7 +560,7 @@ export class Futurable<T> extends Promise<T> {
 
 		const utils: FuturableUtils<T> = {
 			signal: sign,
-			cancel: (): void => controller.abort(),
+			cancel: (reason?: any): void => controller.abort(reason),
 			onCancel,
 			delay: (cb, timer) => {
 				return new Futurable(res => {
@@ -236,6 +572,9 @@ export class Futurable<T> extends Promise<T> {
 			sleep: (timer) => {
 				return utils.delay(() => { }, timer);
 			},
+			fetchWithProgress: (url: string, opts?: FuturableProgressOptions): Futurable<Blob> => {
+				return Futurable.fetchWithProgress(url, { ...opts, signal: sign });
+			},
 			fetch: (url: string, opts?: RequestInit): Futurable<Response> => {
 				return new Futurable<Response>((res, rej) => {
 					fetch(url, { ...(opts || {}), signal: sign })
@@ -264,6 +603,7 @@ export class Futurable<T> extends Promise<T> {
 					clearTimeouts();
 					abortCb.forEach(cb => cb());
 					abortCb = [];
+					rejectOnCancel && reject(new CancellationError(sign.reason));
 				}
 				const cleanup = () => {
 					sign.removeEventListener('abort', handleAbort);
@@ -282,6 +622,7 @@ export class Futurable<T> extends Promise<T> {
 				executor(res, rej, utils);
 			} else {
 				clearTimeouts();
+				rejectOnCancel && reject(new CancellationError(sign.reason));
 				return;
 			}
 		});
@@ -293,6 +634,7 @@ export class Futurable<T> extends Promise<T> {
 		this.controller = controller;
 		this.internalSignal = sign;
 		this.idsTimeout = idsTimeout;
+		this.rejectOnCancelMode = rejectOnCancel;
 	}
 
 	static get [Symbol.species]() {
@@ -333,14 +675,19 @@ export class Futurable<T> extends Promise<T> {
 	then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1> | FuturableLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2> | FuturableLike<TResult2>) | undefined | null): Futurable<TResult1 | TResult2> {
 		let resolve: FuturableResolve<TResult1 | TResult2>,
 			reject: FuturableReject;
+		const settleAfterCancel = this.rejectOnCancelMode && this.internalSignal.aborted;
 		const p = new Futurable<TResult1 | TResult2>((res, rej) => {
 			resolve = res;
 			reject = rej;
-		}, this.internalSignal);
+		}, settleAfterCancel ? undefined : this.internalSignal);
 
 		p.controller = this.controller;
+		p.rejectOnCancelMode = this.rejectOnCancelMode;
+		if (settleAfterCancel) {
+			p.internalSignal = this.internalSignal;
+		}
 		super.then(val => {
-			if (this.internalSignal?.aborted) {
+			if (this.internalSignal?.aborted && !this.rejectOnCancelMode) {
 				this.clearTimeout();
 				return;
 			}
@@ -354,7 +701,7 @@ export class Futurable<T> extends Promise<T> {
 				reject(error);
 			}
 		}, reason => {
-			if (this.internalSignal?.aborted) {
+			if (this.internalSignal?.aborted && !this.rejectOnCancelMode) {
 				this.clearTimeout();
 				return;
 			}
@@ -409,16 +756,55 @@ export class Futurable<T> extends Promise<T> {
 	* Cancels the Futurable if it is pending or currently executing.
 	* Aborts the internal signal and triggers all registered onCancel callbacks.
 	*
+	* By default the Futurable stays pending after cancellation. If it was created with
+	* `rejectOnCancel` (or derived through `rejectOnCancel()`), it rejects with a CancellationError
+	* carrying the given reason.
+	*
+	* @param reason - Optional cancellation reason, exposed through `signal.reason`
+	*
 	* @example
 	* ```typescript
 	* const futurable = new Futurable((resolve) => {
 	*   setTimeout(() => resolve('done'), 5000);
 	* });
 	* futurable.cancel(); // Cancels the operation
+	* futurable.cancel('No longer needed'); // Reason is available via futurable.signal.reason
 	* ```
 	*/
-	cancel(): void {
-		!this.internalSignal?.aborted && this.controller.abort();
+	cancel(reason?: any): void {
+		!this.internalSignal?.aborted && this.controller.abort(reason);
+	}
+
+	/**
+	* Returns a Futurable linked to the same cancellation controller that rejects with a
+	* CancellationError when cancelled, instead of staying pending forever.
+	* Futurables derived from it (then, catch, finally, ...) inherit the same behavior,
+	* so `await` chains unwind and `finally` blocks run on cancellation.
+	*
+	* @returns A new Futurable that rejects on cancellation
+	*
+	* @example
+	* ```typescript
+	* const request = Futurable.fetch('/api/data').rejectOnCancel();
+	*
+	* setTimeout(() => request.cancel('Timeout'), 1000);
+	*
+	* try {
+	*   await request;
+	* } catch (err) {
+	*   console.log(err instanceof CancellationError); // true
+	* } finally {
+	*   hideSpinner();
+	* }
+	* ```
+	*/
+	rejectOnCancel(): Futurable<T> {
+		const cancelable = new Futurable<T>((resolve, reject) => {
+			this.then(resolve, reject);
+		}, { signal: this.internalSignal, rejectOnCancel: true });
+
+		cancelable.controller = this.controller;
+		return cancelable;
 	}
 
 	/**
@@ -445,7 +831,7 @@ export class Futurable<T> extends Promise<T> {
 					this.idsTimeout.push(
 						setTimeout(() => resolve(cb(val)), timer)
 					);
-				}, this.internalSignal);
+				}, { signal: this.internalSignal, rejectOnCancel: this.rejectOnCancelMode });
 			}
 		);
 	}
@@ -498,10 +884,71 @@ export class Futurable<T> extends Promise<T> {
 							rej(err);
 						}
 					});
-			});
+			}, { signal: this.internalSignal, rejectOnCancel: this.rejectOnCancelMode });
 		});
 	}
 
+	/**
+	* Performs an HTTP fetch operation and parses the response body as JSON.
+	* Non-2xx responses reject with an HttpError carrying the status, headers and parsed body.
+	*
+	* @template U - The type of the parsed body
+	* @param url - URL to fetch, or a function that receives the Futurable's value and returns a URL
+	* @param opts - Fetch options, or a function that receives the Futurable's value and returns fetch options
+	* @param validate - Optional type guard checking the parsed body at runtime
+	* @returns A new Futurable that resolves with the parsed body
+	*
+	* @example
+	* ```typescript
+	* const isUser = (data: unknown): data is User => typeof data === 'object' && data !== null && 'id' in data;
+	*
+	* Futurable.resolve(42)
+	*   .fetchJson(id => `/api/users/${id}`, undefined, isUser)
+	*   .then(user => console.log(user.id));
+	* ```
+	*/
+	fetchJson<U = unknown>(url: string | ((val: T) => string), opts?: object | RequestInit | ((val: T) => RequestInit), validate?: FuturableResponseValidator<U>): Futurable<U> {
+		return this.fetch(url, opts).then(Futurable.readBody("json", validate));
+	}
+
+	/**
+	* Performs an HTTP fetch operation and reads the response body as text.
+	* Non-2xx responses reject with an HttpError carrying the status, headers and parsed body.
+	*
+	* @param url - URL to fetch, or a function that receives the Futurable's value and returns a URL
+	* @param opts - Fetch options, or a function that receives the Futurable's value and returns fetch options
+	* @returns A new Futurable that resolves with the body text
+	*
+	* @example
+	* ```typescript
+	* Futurable.resolve('README.md')
+	*   .fetchText(file => `/docs/${file}`)
+	*   .then(markdown => render(markdown));
+	* ```
+	*/
+	fetchText(url: string | ((val: T) => string), opts?: object | RequestInit | ((val: T) => RequestInit)): Futurable<string> {
+		return this.fetch(url, opts).then(Futurable.readBody<string>("text"));
+	}
+
+	/**
+	* Performs an HTTP fetch operation and reads the response body as a Blob.
+	* Non-2xx responses reject with an HttpError carrying the status, headers and parsed body.
+	*
+	* @param url - URL to fetch, or a function that receives the Futurable's value and returns a URL
+	* @param opts - Fetch options, or a function that receives the Futurable's value and returns fetch options
+	* @returns A new Futurable that resolves with the body Blob
+	*
+	* @example
+	* ```typescript
+	* Futurable.resolve(avatarId)
+	*   .fetchBlob(id => `/api/avatars/${id}`)
+	*   .then(blob => img.src = URL.createObjectURL(blob));
+	* ```
+	*/
+	fetchBlob(url: string | ((val: T) => string), opts?: object | RequestInit | ((val: T) => RequestInit)): Futurable<Blob> {
+		return this.fetch(url, opts).then(Futurable.readBody<Blob>("blob"));
+	}
+
 	/**
 	* Registers a callback to be executed when the Futurable is cancelled.
 	* Useful for cleanup operations or aborting dependent async tasks.
@@ -528,7 +975,7 @@ export class Futurable<T> extends Promise<T> {
 				val => resolve(val as unknown as TResult1),
 				reason => reject(reason)
 			);
-		}, this.internalSignal);
+		}, { signal: this.internalSignal, rejectOnCancel: this.rejectOnCancelMode });
 
 		cancelable.controller = this.controller;
 		return cancelable;
@@ -557,7 +1004,7 @@ export class Futurable<T> extends Promise<T> {
 				resolvedPromise
 					.then(resolve)
 					.catch(reject);
-			}, this.internalSignal);
+			}, { signal: this.internalSignal, rejectOnCancel: this.rejectOnCancelMode });
 		});
 	}
 
@@ -757,6 +1204,283 @@ export class Futurable<T> extends Promise<T> {
 		}, signal)
 	}
 
+	/**
+	* Performs an HTTP fetch operation and parses the response body as JSON.
+	* Non-2xx responses reject with an HttpError carrying the status, headers and parsed body.
+	*
+	* @template T - The type of the parsed body
+	* @param url - The URL to fetch
+	* @param opts - Optional Fetch API options (if signal is provided, it overrides the internal one)
+	* @param validate - Optional type guard checking the parsed body at runtime
+	* @returns A Futurable that resolves with the parsed body
+	*
+	* @example
+	* ```typescript
+	* const users = await Futurable.fetchJson<User[]>('/api/users');
+	* ```
+	*
+	* @example
+	* ```typescript
+	* // Narrow the type at runtime: an unexpected body rejects with a TypeError
+	* const isUser = (data: unknown): data is User => typeof data === 'object' && data !== null && 'id' in data;
+	* const user = await Futurable.fetchJson('/api/me', undefined, isUser);
+	* ```
+	*/
+	static fetchJson<T = unknown>(url: string, opts?: RequestInit, validate?: FuturableResponseValidator<T>): Futurable<T> {
+		return Futurable.fetch(url, opts && { ...opts }).then(Futurable.readBody("json", validate));
+	}
+
+	/**
+	* Performs an HTTP fetch operation and reads the response body as text.
+	* Non-2xx responses reject with an HttpError carrying the status, headers and parsed body.
+	*
+	* @param url - The URL to fetch
+	* @param opts - Optional Fetch API options (if signal is provided, it overrides the internal one)
+	* @returns A Futurable that resolves with the body text
+	*
+	* @example
+	* ```typescript
+	* const csv = await Futurable.fetchText('/api/export.csv');
+	* ```
+	*/
+	static fetchText(url: string, opts?: RequestInit): Futurable<string> {
+		return Futurable.fetch(url, opts && { ...opts }).then(Futurable.readBody<string>("text"));
+	}
+
+	/**
+	* Performs an HTTP fetch operation and reads the response body as a Blob.
+	* Non-2xx responses reject with an HttpError carrying the status, headers and parsed body.
+	*
+	* @param url - The URL to fetch
+	* @param opts - Optional Fetch API options (if signal is provided, it overrides the internal one)
+	* @returns A Futurable that resolves with the body Blob
+	*
+	* @example
+	* ```typescript
+	* const image = await Futurable.fetchBlob('/images/logo.png');
+	* ```
+	*/
+	static fetchBlob(url: string, opts?: RequestInit): Futurable<Blob> {
+		return Futurable.fetch(url, opts && { ...opts }).then(Futurable.readBody<Blob>("blob"));
+	}
+
+	/**
+	* Performs an HTTP fetch operation reporting the transfer progress, and resolves with the body as a Blob.
+	* The body is read chunk by chunk: `onDownloadProgress` receives `{ loaded, total }` after every chunk,
+	* with `total` taken from the Content-Length header.
+	*
+	* Setting `onUploadProgress` sends the request body as a stream of 64 KiB chunks, and `loaded` counts
+	* the bytes handed over to fetch: the network stack buffers them, so they are not yet acknowledged by the
+	* server. Streamed request bodies are not supported everywhere (Firefox, Safari, and Chromium over HTTP/1.1):
+	* there the body is sent as is and no upload progress is reported.
+	*
+	* Non-2xx responses reject with an HttpError; cancelling aborts the request and the body reader,
+	* and a partially received body is discarded.
+	*
+	* @param url - The URL to fetch
+	* @param opts - Optional Fetch API options with the progress callbacks (if signal is provided, it overrides the internal one)
+	* @returns A Futurable that resolves with the body Blob
+	*
+	* @example
+	* ```typescript
+	* const download = Futurable.fetchWithProgress('/files/video.mp4', {
+	*   onDownloadProgress: ({ loaded, total }) => {
+	*     progressBar.value = total ? loaded / total : 0;
+	*   }
+	* });
+	*
+	* cancelButton.onclick = () => download.cancel();
+	* const video = await download;
+	* ```
+	*
+	* @example
+	* ```typescript
+	* await Futurable.fetchWithProgress('/api/upload', {
+	*   method: 'POST',
+	*   body: file,
+	*   onUploadProgress: ({ loaded, total }) => console.log(`Sent ${loaded} of ${total} bytes`)
+	* });
+	* ```
+	*/
+	static fetchWithProgress(url: string, opts?: FuturableProgressOptions): Futurable<Blob> {
+		const { signal, onDownloadProgress, onUploadProgress, ...init } = opts || {};
+		return new Futurable<Blob>((res, rej, utils) => {
+			Futurable.transfer(url, init, utils.signal, onUploadProgress, onDownloadProgress)
+				.then(res)
+				.catch(err => {
+					if (!utils.signal.aborted) {
+						rej(err);
+					}
+				});
+		}, signal ?? undefined);
+	}
+
+	/**
+	* Sends a request and reads the response body, reporting the progress of both.
+	* Rejects with the abort reason when the signal aborts, instead of returning a partial body.
+	*/
+	private static async transfer(url: string, init: RequestInit, signal: AbortSignal, onUploadProgress?: (progress: FuturableProgress) => void, onDownloadProgress?: (progress: FuturableProgress) => void): Promise<Blob> {
+		let response: Response;
+		if (onUploadProgress && init.body != null && Futurable.supportsRequestStreams()) {
+			const source = new Response(init.body);
+			const bytes = new Uint8Array(await source.arrayBuffer());
+			const headers = new Headers(init.headers);
+			const type = source.headers.get("content-type");
+			type && !headers.has("content-type") && headers.set("Content-Type", type);
+			let sent = 0;
+			// With no high water mark, a chunk is produced only when fetch reads it
+			const body = new ReadableStream<Uint8Array>({
+				pull: controller => {
+					if (sent >= bytes.byteLength) {
+						controller.close();
+						return;
+					}
+					const chunk = bytes.subarray(sent, sent + 65536);
+					sent += chunk.byteLength;
+					controller.enqueue(chunk);
+					onUploadProgress({ loaded: sent, total: bytes.byteLength });
+				}
+			}, { highWaterMark: 0 });
+			try {
+				// duplex is required by fetch for streamed bodies but missing from the DOM typings
+				response = await fetch(url, { ...init, headers, body, duplex: "half", signal } as RequestInit);
+			} catch (err) {
+				// Chromium rejects streamed bodies over HTTP/1.1 before reading them: send the plain body instead
+				if (sent > 0 || signal.aborted || !(err instanceof TypeError)) {
+					throw err;
+				}
+				response = await fetch(url, { ...init, headers, body: bytes, signal });
+			}
+		} else {
+			response = await fetch(url, { ...init, signal });
+		}
+
+		if (!response.ok) {
+			throw await HttpError.fromResponse(response);
+		}
+		const type = response.headers.get("content-type") || "";
+		const length = response.headers.get("content-length");
+		// With a Content-Encoding, Content-Length is the size of the encoded body, not of the bytes read
+		let total = length !== null && /^\d+$/.test(length) && !response.headers.has("content-encoding") ? Number(length) : undefined;
+		if (!response.body) {
+			onDownloadProgress?.({ loaded: 0, total });
+			return new Blob([], { type });
+		}
+
+		const reader = response.body.getReader();
+		const abort = () => {
+			reader.cancel(signal.reason).catch(() => { });
+		};
+		signal.addEventListener("abort", abort, { once: true });
+		try {
+			const chunks: Uint8Array[] = [];
+			let loaded = 0;
+			for (;;) {
+				const { done, value } = await reader.read();
+				if (done) {
+					break;
+				}
+				chunks.push(value);
+				loaded += value.byteLength;
+				total !== undefined && loaded > total && (total = undefined);
+				onDownloadProgress?.({ loaded, total });
+			}
+			if (signal.aborted) {
+				throw signal.reason;
+			}
+			// The last event reports the size once it is known
+			total !== loaded && onDownloadProgress?.({ loaded, total: loaded });
+			return new Blob(chunks as BlobPart[], { type });
+		} finally {
+			signal.removeEventListener("abort", abort);
+		}
+	}
+
+	/**
+	* Detects whether fetch accepts a ReadableStream as request body. Runtimes without request
+	* streams never read the `duplex` option, and send the stream as the "[object ReadableStream]" text.
+	*/
+	private static supportsRequestStreams(): boolean {
+		let duplexAccessed = false;
+		try {
+			const hasContentType = new Request("http://localhost/", {
+				method: "POST",
+				body: new ReadableStream(),
+				get duplex() {
+					duplexAccessed = true;
+					return "half";
+				}
+			} as RequestInit).headers.has("content-type");
+			return duplexAccessed && !hasContentType;
+		} catch {
+			return false;
+		}
+	}
+
+	/**
+	* Returns a callback that reads a response body with the given method,
+	* rejecting with an HttpError on non-2xx responses.
+	*/
+	private static readBody<U>(type: "json" | "text" | "blob", validate?: FuturableResponseValidator<U>): (response: Response) => Promise<U> {
+		return async response => {
+			if (!response.ok) {
+				throw await HttpError.fromResponse(response);
+			}
+			const body: unknown = await response[type]();
+			if (validate && !validate(body)) {
+				throw new TypeError(`Response body of ${response.url || "the request"} failed validation`);
+			}
+			return body as U;
+		};
+	}
+
+	/**
+	* Creates an HTTP client with a base URL, default headers and interceptors.
+	* Requests are lazy FuturableTasks, so they compose with retry(), timeout(), limiters and the other operators.
+	* Non-2xx responses reject with an HttpError after going through the error interceptors.
+	*
+	* @param options - Client configuration
+	* @param options.baseUrl - Base URL that relative request URLs are resolved against
+	* @param options.headers - Default headers sent with every request
+	* @param options.fetch - Fetch implementation used to send the requests (default: the global fetch)
+	* @param options.interceptors - Request, response and error interceptors, which may be async
+	* @returns The HTTP client
+	*
+	* @example
+	* ```typescript
+	* const api = Futurable.createHttpClient({
+	*   baseUrl: 'https://api.example.com',
+	*   headers: { Accept: 'application/json' }
+	* });
+	*
+	* const users = await api.get('/users').map(res => res.json()).run();
+	* await api.post('/users', { name: 'Ada' }).run(); // Sent as JSON
+	* ```
+	*
+	* @example
+	* ```typescript
+	* // Refresh an expired token and replay the request
+	* const api = Futurable.createHttpClient({
+	*   baseUrl: '/api',
+	*   interceptors: {
+	*     request: [request => {
+	*       request.headers.set('Authorization', `Bearer ${auth.token}`);
+	*       return request;
+	*     }],
+	*     error: [async (error, { replay }) => {
+	*       if (error instanceof HttpError && error.status === 401) {
+	*         await auth.refresh();
+	*         return replay();
+	*       }
+	*     }]
+	*   }
+	* });
+	* ```
+	*/
+	static createHttpClient(options?: FuturableHttpClientOptions): FuturableHttpClient {
+		return FuturableTask.createHttpClient(options);
+	}
+
 	/**
 	* Converts a Promise into a Futurable with cancellation support.
 	* Note: The original Promise cannot be cancelled, but the Futurable wrapper can be.
@@ -967,7 +1691,12 @@ export class Futurable<T> extends Promise<T> {
 
 	/**
 	* Creates a polling service that repeatedly executes a function at regular intervals.
-	* Supports cancellation and error handling.
+	* Supports cancellation, error handling, result delivery, stop conditions and backoff.
+	*
+	* Results of successful polls are passed to `onResult` and produced by the returned
+	* controller, which is an async iterable. When `until` returns true for a result, polling
+	* stops and `controller.result` resolves with it. After `maxErrors` consecutive failures,
+	* polling stops and `controller.result` rejects with the last error.
 	*
 	* @template T - Type returned by the polling function
 	* @param fun - Function to execute on each poll (can return a Futurable, Promise, or plain value)
@@ -975,7 +1704,14 @@ export class Futurable<T> extends Promise<T> {
 	* @param options.interval - Interval between polls in milliseconds
 	* @param options.signal - Optional AbortSignal to stop polling
 	* @param options.immediate - If true, executes the function immediately before starting the interval
-	* @returns A controller object with cancel() and catch() methods
+	* @param options.onResult - Called with the result of every successful poll
+	* @param options.until - Stop condition evaluated on every result
+	* @param options.maxErrors - Consecutive failures after which polling stops (default: Infinity)
+	* @param options.backoff - Exponential backoff applied to the interval after failures
+	* @param options.jitter - Random variation of every wait, as a ratio of it (default: 0)
+	* @param options.mode - Scheduling of the polls: "interval" (default), "fixed-rate" or "fixed-delay"
+	* @returns A controller object with cancel(), catch(), pause(), resume() and trigger() methods,
+	*          a `result` Futurable, iterable over the poll results
 	*
 	* @example
 	* ```typescript
@@ -989,16 +1725,152 @@ export class Futurable<T> extends Promise<T> {
 	* // Stop polling after 30 seconds
 	* setTimeout(() => polling.cancel(), 30000);
 	* ```
+	*
+	* @example
+	* ```typescript
+	* // Wait for a job to complete, backing off while the server is failing
+	* const job = await Futurable.polling(
+	*   () => Futurable.fetch(`/api/jobs/${id}`).then(r => r.json()),
+	*   {
+	*     interval: 1000,
+	*     until: job => job.status === 'done',
+	*     maxErrors: 5,
+	*     backoff: { factor: 2, maxInterval: 30_000 },
+	*     jitter: 0.1
+	*   }
+	* ).result;
+	* ```
+	*
+	* @example
+	* ```typescript
+	* // Never overlapping polls of a slow endpoint, paused while the tab is hidden
+	* const polling = Futurable.polling(loadDashboard, { interval: 10_000, mode: 'fixed-delay' });
+	*
+	* document.addEventListener('visibilitychange', () => {
+	*   document.hidden ? polling.pause() : polling.resume();
+	* });
+	* refreshButton.onclick = () => polling.trigger();
+	* ```
+	*
+	* @example
+	* ```typescript
+	* // Consuming results as they arrive
+	* for await (const status of Futurable.polling(getStatus, { interval: 2000 })) {
+	*   render(status);
+	*   if (status.final) break; // Stops the polling
+	* }
+	* ```
 	*/
-	static polling<T>(fun: () => Futurable<T> | Promise<T> | T, { interval, signal, immediate }: { interval: number, signal?: AbortSignal, immediate?: boolean }): FuturablePollingController {
+	static polling<T>(fun: () => Futurable<T> | Promise<T> | T, { interval, signal, immediate, onResult, until, maxErrors = Infinity, backoff, jitter = 0, mode = "interval" }: FuturablePollingOptions<T>): FuturablePollingController<T> {
 		let f: Futurable<void>;
 		let internal: Futurable<void> | Promise<void>;
+		let timer: ReturnType<typeof setTimeout> | undefined;
+		let lastPollAt = Date.now();
+		let lastSettledAt = lastPollAt;
+		let consecutiveErrors = 0;
+		let stopped = false;
+		let paused = false;
+		let polling = false;
+		let checking = false;
+		let due = false;
+		let outcome: { value: T } | { error: unknown } | undefined;
+		let result: FuturableWithResolvers<T> | undefined;
 		const pendingErrors: unknown[] = [];
+		const subscribers = new Set<{ values: T[], wake?: () => void }>();
 
 		let errorHandler: (reason: unknown) => void = (err) => {
 			pendingErrors.push(err);
 		};
 
+		const nextDelay = (): number => {
+			const { factor = 2, maxInterval = Infinity } = backoff || {};
+			const delay = backoff && consecutiveErrors > 0
+				? Math.min(maxInterval, interval * Math.pow(factor, consecutiveErrors))
+				: interval;
+			return jitter > 0 ? delay * (1 + (Math.random() * 2 - 1) * jitter) : delay;
+		};
+
+		const schedule = (): void => {
+			clearTimeout(timer);
+			if (stopped || paused || checking || (mode !== "interval" && polling)) {
+				return;
+			}
+			const from = mode === "fixed-delay" ? lastSettledAt : lastPollAt;
+			timer = setTimeout(tick, Math.max(0, from + nextDelay() - Date.now()));
+		};
+
+		const settled = (): void => {
+			polling = false;
+			lastSettledAt = Date.now();
+			mode !== "interval" && schedule();
+		};
+
+		const settle = (): void => {
+			if (result && outcome) {
+				"value" in outcome ? result.resolve(outcome.value) : result.reject(outcome.error);
+			}
+		};
+
+		const stop = (final?: { value: T } | { error: unknown }): void => {
+			if (stopped) {
+				return;
+			}
+			stopped = true;
+			outcome = final;
+			clearTimeout(timer);
+			if (polling) {
+				f && f.cancel();
+				internal && internal instanceof Futurable && internal.cancel();
+			}
+			settle();
+			subscribers.forEach(subscriber => subscriber.wake?.());
+		};
+
+		const handleResult = async (value: T): Promise<void> => {
+			const recovering = consecutiveErrors > 0;
+			consecutiveErrors = 0;
+			if (recovering && backoff) {
+				schedule();
+			}
+			subscribers.forEach(subscriber => {
+				subscriber.values.push(value);
+				subscriber.wake?.();
+			});
+			try {
+				onResult?.(value);
+				if (until) {
+					// No poll starts until the stop condition is known
+					checking = true;
+					if (await until(value)) {
+						stop({ value });
+					}
+				}
+			} catch (err) {
+				errorHandler(err);
+			} finally {
+				if (checking) {
+					checking = false;
+					const wasDue = due;
+					due = false;
+					if (wasDue && !stopped && !paused) {
+						tick();
+					} else if (mode !== "interval") {
+						schedule();
+					}
+				}
+			}
+		};
+
+		const handleError = (err: unknown): void => {
+			consecutiveErrors++;
+			errorHandler(err);
+			if (consecutiveErrors >= maxErrors) {
+				stop({ error: err });
+			} else if (backoff) {
+				schedule();
+			}
+		};
+
 		const executePoll = (): void => {
 			f && f.cancel();
 			f = new Futurable<void>((res, rej, utils) => {
@@ -1009,39 +1881,132 @@ export class Futurable<T> extends Promise<T> {
 					const temp = fun();
 					if (temp instanceof Futurable || temp instanceof Promise) {
 						internal = temp
-							.then(() => res())
-							.catch(err => {
-								errorHandler(err);
-							});
+							.then(
+								value => {
+									res();
+									if (!utils.signal.aborted) {
+										handleResult(value);
+										settled();
+									}
+								},
+								err => {
+									if (!utils.signal.aborted) {
+										handleError(err);
+										settled();
+									}
+								}
+							);
 					} else {
 						res();
+						Promise.resolve().then(() => {
+							if (!utils.signal.aborted) {
+								handleResult(temp);
+								settled();
+							}
+						});
 					}
 				} catch (err) {
-					errorHandler(err);
+					handleError(err);
+					settled();
 				}
 			}, signal);
 		};
 
-		if (immediate) {
+		const tick = (): void => {
+			if (checking) {
+				due = true;
+				return;
+			}
+			lastPollAt = Date.now();
+			polling = true;
+			schedule();
 			executePoll();
+		};
+
+		if (signal) {
+			if (signal.aborted) {
+				stopped = true;
+			} else {
+				signal.addEventListener("abort", () => stop(), { once: true });
+			}
 		}
-		const id = setInterval(executePoll, interval);
+		if (immediate && !stopped) {
+			tick();
+		} else {
+			schedule();
+		}
+
 		return {
-			cancel: () => {
-				id && clearInterval(id);
-				f && f.cancel();
-				internal && internal instanceof Futurable && internal.cancel();
-			},
+			cancel: () => stop(),
 			catch: (onrejected) => {
 				errorHandler = onrejected;
 				if (pendingErrors.length > 0) {
 					pendingErrors.forEach(err => onrejected(err));
 					pendingErrors.length = 0;
 				}
+			},
+			get isPaused() {
+				return paused;
+			},
+			pause: () => {
+				if (!paused) {
+					paused = true;
+					clearTimeout(timer);
+				}
+			},
+			resume: () => {
+				if (paused) {
+					paused = false;
+					schedule();
+				}
+			},
+			trigger: () => {
+				if (!stopped && !(mode !== "interval" && polling)) {
+					tick();
+				}
+			},
+			get result() {
+				if (!result) {
+					result = Futurable.withResolvers<T>();
+					settle();
+				}
+				return result.promise as Futurable<T>;
+			},
+			[Symbol.asyncIterator]: () => {
+				const subscriber: { values: T[], wake?: () => void } = { values: [] };
+				subscribers.add(subscriber);
+				let finished = false;
+				const finish = (): IteratorReturnResult<undefined> => {
+					finished = true;
+					subscribers.delete(subscriber);
+					return { done: true, value: undefined };
+				};
+				return {
+					next: async (): Promise<IteratorResult<T, undefined>> => {
+						while (!finished && subscriber.values.length === 0 && !stopped) {
+							await new Promise<void>(resolve => subscriber.wake = resolve);
+							subscriber.wake = undefined;
+						}
+						if (subscriber.values.length > 0) {
+							return { done: false, value: subscriber.values.shift()! };
+						}
+						const wasFinished = finished;
+						finish();
+						if (!wasFinished && outcome && "error" in outcome) {
+							throw outcome.error;
+						}
+						return { done: true, value: undefined };
+					},
+					return: async (): Promise<IteratorResult<T, undefined>> => {
+						stop();
+						return finish();
+					}
+				};
 			}
 		};
 	}
 
+
 	/**
 	* Creates a new Futurable and returns it along with its control functions.
 	* Extension of the Promise.withResolvers() static method with cancellation support.
@@ -1082,6 +2047,207 @@ export class Futurable<T> extends Promise<T> {
 		}
 	}
 
+	/**
+	 * Runs `body` in a structured concurrency scope that owns every child launched through it.
+	 *
+	 * - Children are launched with `scope.launch(executor)` or `scope.run(task)`.
+	 * - The scope settles only after the body and all its children have settled.
+	 * - The first failure, of a child or of the body, cancels all the other children. The scope
+	 *   then rejects with that failure.
+	 * - Cancelling the returned Futurable, or aborting `signal`, cancels the whole tree.
+	 *
+	 * Children reject with a CancellationError when the scope cancels them, so an `await` on a
+	 * cancelled child unwinds the body instead of hanging. A child cancelled on its own does not
+	 * fail the scope.
+	 *
+	 * @template T - The type of value returned by the body
+	 * @param body - Function receiving the scope, whose result becomes the scope's value
+	 * @param signal - Optional AbortSignal cancelling the scope
+	 * @returns A Futurable settling with the body's result once every child has settled
+	 *
+	 * @example
+	 * ```typescript
+	 * const dashboard = Futurable.scope(async (scope) => {
+	 *   const user = scope.launch<User>((res, rej, { fetch }) => {
+	 *     fetch('/api/user').then(r => r.json()).then(res, rej);
+	 *   });
+	 *   const stats = scope.run(FuturableTask.fetch('/api/stats').map(r => r.json()));
+	 *
+	 *   return { user: await user, stats: await stats };
+	 * });
+	 *
+	 * // Cancels both requests
+	 * dashboard.cancel();
+	 * ```
+	 *
+	 * @example
+	 * ```typescript
+	 * // The first failure cancels the siblings
+	 * try {
+	 *   await Futurable.scope(async (scope) => {
+	 *     scope.run(uploadTask(fileA));
+	 *     scope.run(uploadTask(fileB)); // fails
+	 *   });
+	 * } catch (err) {
+	 *   // err is the failure of fileB; the upload of fileA was cancelled
+	 * }
+	 * ```
+	 */
+	static scope<T>(body: (scope: FuturableScope) => T | PromiseLike<T> | FuturableLike<T>, signal?: AbortSignal): Futurable<T> {
+		return new Futurable<T>((resolve, reject, utils) => {
+			const controller = new AbortController();
+			let pending = 0;
+			let bodyDone = false;
+			let failed = false;
+			let failure: unknown;
+			let result: T;
+
+			utils.onCancel(() => controller.abort(utils.signal.reason));
+
+			const settle = () => {
+				if (!bodyDone || pending > 0 || utils.signal.aborted) {
+					return;
+				}
+				failed ? reject(failure) : resolve(result);
+			}
+			const fail = (error: unknown) => {
+				if (!controller.signal.aborted) {
+					failed = true;
+					failure = error;
+					controller.abort(error);
+				}
+			}
+			const track = <R>(child: Futurable<R>): Futurable<R> => {
+				pending++;
+				child.then(
+					() => {
+						pending--;
+						settle();
+					},
+					error => {
+						if (!child.signal.aborted) {
+							fail(error);
+						}
+						pending--;
+						settle();
+					}
+				);
+				return child;
+			}
+
+			const scope: FuturableScope = {
+				signal: controller.signal,
+				launch: executor => track(new Futurable(executor, { signal: controller.signal, rejectOnCancel: true })),
+				run: task => track(new Futurable((res, rej, childUtils) => {
+					task.run(childUtils.signal).then(res, rej);
+				}, { signal: controller.signal, rejectOnCancel: true })),
+				cancel: reason => utils.cancel(reason)
+			};
+
+			Futurable.try(body, scope).then(
+				value => {
+					result = value as T;
+					bodyDone = true;
+					settle();
+				},
+				error => {
+					fail(error);
+					bodyDone = true;
+					settle();
+				}
+			);
+		}, signal);
+	}
+
+	/**
+	 * Drives a generator function as a cancellable async function.
+	 *
+	 * Inside the generator, `yield` works like `await`: the yielded value (a Futurable, a Promise
+	 * or a plain value) is awaited and its result is sent back into the generator, while a
+	 * rejection is thrown at the `yield` expression. The Futurable resolves with the generator's
+	 * return value and rejects with any error it throws.
+	 *
+	 * Unlike an `async` function, the generator can be interrupted between steps. On cancellation:
+	 * - the generator is never resumed again, so no `if (signal.aborted) return` checks are needed
+	 * - `generator.return()` is called, so its `finally` blocks run
+	 * - the Futurable currently being yielded is cancelled
+	 *
+	 * @template T - The type of value returned by the generator
+	 * @param generatorFn - Generator function receiving the Futurable utils
+	 * @param signal - Optional AbortSignal for cancellation
+	 * @returns A Futurable settling with the outcome of the generator
+	 *
+	 * @example
+	 * ```typescript
+	 * const profile = Futurable.gen(function* ({ fetch }) {
+	 *   const res: Response = yield fetch('/api/user');
+	 *   const user: User = yield res.json();
+	 *   const posts: Post[] = yield fetch(`/api/users/${user.id}/posts`).then(r => r.json());
+	 *   return { user, posts };
+	 * });
+	 *
+	 * // Aborts the request in flight and never resumes the generator
+	 * profile.cancel();
+	 * ```
+	 *
+	 * @example
+	 * ```typescript
+	 * // finally blocks run on cancellation
+	 * const job = Futurable.gen(function* ({ sleep }) {
+	 *   const lock = acquireLock();
+	 *   try {
+	 *     yield sleep(10_000);
+	 *     return 'done';
+	 *   } finally {
+	 *     lock.release();
+	 *   }
+	 * });
+	 *
+	 * job.cancel(); // lock.release() is called
+	 * ```
+	 */
+	static gen<T>(generatorFn: (utils: FuturableUtils<T>) => Generator<unknown, T, any>, signal?: AbortSignal): Futurable<T> {
+		return new Futurable<T>((resolve, reject, utils) => {
+			const generator = generatorFn(utils);
+			let current: unknown;
+
+			utils.onCancel(() => {
+				if (current instanceof Futurable) {
+					current.cancel(utils.signal.reason);
+				}
+				try {
+					generator.return(undefined as T);
+				} catch {
+					// the generator cancelled itself while running, or threw from a finally block
+				}
+			});
+
+			const step = (advance: () => IteratorResult<unknown, T>) => {
+				if (utils.signal.aborted) {
+					return;
+				}
+				let result: IteratorResult<unknown, T>;
+				try {
+					result = advance();
+				} catch (error) {
+					reject(error);
+					return;
+				}
+				if (result.done) {
+					resolve(result.value);
+					return;
+				}
+				current = result.value;
+				Promise.resolve(current).then(
+					value => step(() => generator.next(value)),
+					error => step(() => generator.throw(error))
+				);
+			}
+
+			step(() => generator.next());
+		}, signal);
+	}
+
 	/**
 	 * Creates a Futurable that wraps an executor in a safe execution context.
 	 * The resulting Futurable never rejects - instead, it resolves with a result
@@ -0,0 +1,301 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { FuturableStream } from './FuturableStream';
+import { FuturableTask } from './FuturableTask';
+import { Futurable } from './Futurable';
+
+// Mock timers
+vi.useFakeTimers();
+
+describe('FuturableStream', () => {
+	afterEach(() => {
+		vi.clearAllTimers();
+	});
+
+	const collect = async <T>(stream: AsyncIterable<T>): Promise<T[]> => {
+		const values: T[] = [];
+		for await (const value of stream) {
+			values.push(value);
+		}
+		return values;
+	};
+
+	const pages = (fetched: number[], pageCount = Infinity) => FuturableStream.from(async function* (signal: AbortSignal) {
+		for (let page = 1; page <= pageCount; page++) {
+			fetched.push(page);
+			await Futurable.sleep({ timer: 10, signal });
+			yield [page * 10 + 1, page * 10 + 2];
+		}
+	});
+
+	describe('Constructor', () => {
+		it('should not invoke the source until iterated', async () => {
+			const source = vi.fn(() => [1, 2, 3]);
+			const stream = new FuturableStream(source);
+			expect(source).not.toHaveBeenCalled();
+			await expect(collect(stream)).resolves.toEqual([1, 2, 3]);
+			expect(source).toHaveBeenCalledTimes(1);
+		});
+
+		it('should invoke the source on every iteration', async () => {
+			const source = vi.fn(() => [1]);
+			const stream = new FuturableStream(source);
+			await collect(stream);
+			await collect(stream);
+			expect(source).toHaveBeenCalledTimes(2);
+		});
+
+		it('should produce no values when the external signal is aborted', async () => {
+			const controller = new AbortController();
+			const source = vi.fn(() => [1]);
+			const stream = new FuturableStream(source, controller.signal);
+			controller.abort();
+			await expect(collect(stream)).resolves.toEqual([]);
+			expect(source).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('iterate', () => {
+		it('should abort the source signal and stop fetching when the consumer breaks', async () => {
+			const fetched: number[] = [];
+			let sourceSignal: AbortSignal | undefined;
+			const stream = FuturableStream.from(async function* (signal: AbortSignal) {
+				sourceSignal = signal;
+				for (let page = 1; ; page++) {
+					fetched.push(page);
+					yield page;
+				}
+			});
+			for await (const page of stream) {
+				if (page === 3) {
+					break;
+				}
+			}
+			expect(fetched).toEqual([1, 2, 3]);
+			expect(sourceSignal!.aborted).toBe(true);
+		});
+
+		it('should run the finally blocks of the source when the consumer breaks', async () => {
+			const cleanup = vi.fn();
+			const stream = FuturableStream.from(async function* () {
+				try {
+					yield 1;
+					yield 2;
+				} finally {
+					cleanup();
+				}
+			});
+			for await (const value of stream) {
+				expect(value).toBe(1);
+				break;
+			}
+			expect(cleanup).toHaveBeenCalledTimes(1);
+		});
+
+		it('should end while waiting for a value when the signal aborts', async () => {
+			const fetched: number[] = [];
+			const controller = new AbortController();
+			const values: number[][] = [];
+			const loop = (async () => {
+				for await (const page of pages(fetched).iterate(controller.signal)) {
+					values.push(page);
+				}
+			})();
+			await vi.advanceTimersByTimeAsync(15);
+			controller.abort();
+			await loop;
+			expect(values).toEqual([[11, 12]]);
+			expect(fetched).toEqual([1, 2]);
+			await vi.advanceTimersByTimeAsync(100);
+			expect(fetched).toEqual([1, 2]);
+		});
+
+		it('should stop every iteration when the stream is cancelled', async () => {
+			const fetched: number[] = [];
+			const stream = pages(fetched);
+			const loop = collect(stream);
+			await vi.advanceTimersByTimeAsync(25);
+			stream.cancel('stop');
+			await expect(loop).resolves.toEqual([[11, 12], [21, 22]]);
+			expect(stream.signal.reason).toBe('stop');
+		});
+
+		it('should propagate errors thrown by the source', async () => {
+			const stream = FuturableStream.from(async function* () {
+				yield 1;
+				throw new Error('source failed');
+			});
+			await expect(collect(stream)).rejects.toThrow('source failed');
+		});
+	});
+
+	describe('map', () => {
+		it('should transform values, awaiting async functions', async () => {
+			const stream = FuturableStream.from([1, 2, 3]).map(async value => value * 2);
+			await expect(collect(stream)).resolves.toEqual([2, 4, 6]);
+		});
+
+		it('should pass the iteration signal', async () => {
+			const signals: AbortSignal[] = [];
+			const stream = FuturableStream.from([1]).map((value, signal) => {
+				signals.push(signal);
+				return value;
+			});
+			await collect(stream);
+			expect(signals[0]).toBeInstanceOf(AbortSignal);
+		});
+	});
+
+	describe('filter', () => {
+		it('should keep values satisfying the predicate', async () => {
+			const stream = FuturableStream.from([1, 2, 3, 4]).filter(async value => value % 2 === 0);
+			await expect(collect(stream)).resolves.toEqual([2, 4]);
+		});
+	});
+
+	describe('take', () => {
+		it('should take the first n values and stop fetching', async () => {
+			const fetched: number[] = [];
+			const stream = pages(fetched).take(2);
+			const result = collect(stream);
+			await vi.advanceTimersByTimeAsync(20);
+			await expect(result).resolves.toEqual([[11, 12], [21, 22]]);
+			expect(fetched).toEqual([1, 2]);
+		});
+
+		it('should not start the source when n is 0', async () => {
+			const source = vi.fn(() => [1]);
+			await expect(collect(new FuturableStream(source).take(0))).resolves.toEqual([]);
+			expect(source).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('buffer', () => {
+		it('should group values into arrays, emitting the remainder', async () => {
+			const stream = FuturableStream.from([1, 2, 3, 4, 5]).buffer(2);
+			await expect(collect(stream)).resolves.toEqual([[1, 2], [3, 4], [5]]);
+		});
+
+		it('should throw a RangeError for sizes lower than 1', () => {
+			expect(() => FuturableStream.from([1]).buffer(0)).toThrow(RangeError);
+		});
+	});
+
+	describe('mergeMap', () => {
+		it('should merge task results in completion order', async () => {
+			const stream = FuturableStream.from([30, 10, 20])
+				.mergeMap(ms => FuturableTask.delay(ms).map(() => ms));
+			const result = collect(stream);
+			await vi.advanceTimersByTimeAsync(30);
+			await expect(result).resolves.toEqual([10, 20, 30]);
+		});
+
+		it('should respect the concurrency limit', async () => {
+			let active = 0;
+			let maxActive = 0;
+			const stream = FuturableStream.from([1, 2, 3, 4, 5])
+				.mergeMap(value => new FuturableTask<number>((res, _, utils) => {
+					active++;
+					maxActive = Math.max(maxActive, active);
+					utils.sleep(10).then(() => {
+						active--;
+						res(value);
+					});
+				}), 2);
+			const result = collect(stream);
+			await vi.advanceTimersByTimeAsync(30);
+			await expect(result).resolves.toEqual([1, 2, 3, 4, 5]);
+			expect(maxActive).toBe(2);
+		});
+
+		it('should flatten inner async iterables', async () => {
+			const stream = FuturableStream.from([1, 2])
+				.mergeMap(value => FuturableStream.from([value, value * 10]), 1);
+			await expect(collect(stream)).resolves.toEqual([1, 10, 2, 20]);
+		});
+
+		it('should fail on the first inner failure and cancel the running tasks', async () => {
+			const cancelled = vi.fn();
+			const stream = FuturableStream.from([1, 2])
+				.mergeMap(value => new FuturableTask<number>((res, rej, utils) => {
+					utils.onCancel(cancelled);
+					if (value === 1) {
+						utils.sleep(10).then(() => rej(new Error('inner failed')));
+					} else {
+						utils.sleep(50).then(() => res(value));
+					}
+				}));
+			const result = expect(collect(stream)).rejects.toThrow('inner failed');
+			await vi.advanceTimersByTimeAsync(10);
+			await result;
+			expect(cancelled).toHaveBeenCalled();
+		});
+
+		it('should cancel the running tasks when the consumer breaks', async () => {
+			const cancelled = vi.fn();
+			const stream = FuturableStream.from([10, 50, 60])
+				.mergeMap(ms => new FuturableTask<number>((res, _, utils) => {
+					utils.onCancel(cancelled);
+					utils.sleep(ms).then(() => res(ms));
+				}));
+			const loop = (async () => {
+				for await (const value of stream) {
+					expect(value).toBe(10);
+					break;
+				}
+			})();
+			await vi.advanceTimersByTimeAsync(10);
+			await loop;
+			expect(cancelled).toHaveBeenCalledTimes(2);
+		});
+
+		it('should throw a RangeError for a concurrency lower than 1', () => {
+			expect(() => FuturableStream.from([1]).mergeMap(value => FuturableTask.resolve(value), 0)).toThrow(RangeError);
+		});
+	});
+
+	describe('toArray', () => {
+		it('should return a lazy task collecting every value', async () => {
+			const source = vi.fn(() => [1, 2, 3]);
+			const task = new FuturableStream(source).toArray();
+			expect(task).toBeInstanceOf(FuturableTask);
+			expect(source).not.toHaveBeenCalled();
+			await expect(task.run()).resolves.toEqual([1, 2, 3]);
+		});
+
+		it('should stop fetching when the run is cancelled', async () => {
+			const fetched: number[] = [];
+			const onResolve = vi.fn();
+			const task = pages(fetched).toArray();
+			const run = task.run();
+			run.then(onResolve);
+			await vi.advanceTimersByTimeAsync(15);
+			run.cancel();
+			await vi.advanceTimersByTimeAsync(100);
+			expect(fetched).toEqual([1, 2]);
+			expect(onResolve).not.toHaveBeenCalled();
+		});
+
+		it('should reject when the stream fails', async () => {
+			const task = FuturableStream.from(async function* () {
+				yield 1;
+				throw new Error('broken');
+			}).toArray();
+			await expect(task.run()).rejects.toThrow('broken');
+		});
+	});
+
+	describe('Static: from', () => {
+		it('should accept async iterables', async () => {
+			async function* numbers() {
+				yield 1;
+				yield 2;
+			}
+			await expect(collect(FuturableStream.from(numbers()))).resolves.toEqual([1, 2]);
+		});
+
+		it('should return the same stream when given a FuturableStream', () => {
+			const stream = FuturableStream.from([1]);
+			expect(FuturableStream.from(stream)).toBe(stream);
+		});
+	});
+});
@@ -0,0 +1,514 @@
+import { FuturableTask } from "./FuturableTask";
+
+/**
+ * Function producing the values of a FuturableStream.
+ * It is invoked once per iteration with a signal that is aborted when the consumer stops
+ * iterating or the stream is cancelled, so that in-flight work can be interrupted.
+ *
+ * @template T - The type of the values produced
+ *
+ * @example
+ * ```typescript
+ * const source: FuturableStreamSource<User> = async function* (signal) {
+ *   let url: string | null = '/api/users?page=1';
+ *   while (url) {
+ *     const page = await fetch(url, { signal }).then(res => res.json());
+ *     yield* page.items;
+ *     url = page.next;
+ *   }
+ * };
+ * ```
+ */
+export type FuturableStreamSource<T> = (signal: AbortSignal) => AsyncIterable<T> | Iterable<T>;
+
+/**
+ * Lazy, cancellable async iterable.
+ *
+ * Like FuturableTask, a stream describes a computation without starting it: the source is
+ * invoked each time the stream is iterated. Every iteration gets its own signal, aborted when
+ * the consumer breaks out of the loop, when the signal passed to `iterate()` is aborted or
+ * when the stream is cancelled. Iteration stops as soon as the signal is aborted, even if the
+ * source is waiting on a pending value, so no further values are fetched.
+ *
+ * @template T - The type of the values produced by the stream
+ *
+ * @example
+ * ```typescript
+ * const users = FuturableStream.from(async function* (signal) {
+ *   for (let page = 1; ; page++) {
+ *     const items = await FuturableTask.fetch(`/api/users?page=${page}`)
+ *       .map(res => res.json())
+ *       .run(signal);
+ *     if (items.length === 0) return;
+ *     yield* items;
+ *   }
+ * });
+ *
+ * for await (const user of users.filter(u => u.active).take(50)) {
+ *   console.log(user.name);
+ * } // Stops fetching pages once 50 active users have been consumed
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Fetching details with at most 4 concurrent requests
+ * const details = await FuturableStream.from(ids)
+ *   .mergeMap(id => FuturableTask.fetch(`/api/items/${id}`).map(res => res.json()), 4)
+ *   .toArray()
+ *   .run();
+ * ```
+ */
+export class FuturableStream<T> implements AsyncIterable<T> {
+	/**
+	 * Internal AbortController for stream-level cancellation.
+	 * Aborting it stops every ongoing iteration of this stream.
+	 *
+	 * @private
+	 */
+	private readonly controller: AbortController;
+
+	/**
+	 * Creates a new FuturableStream.
+	 *
+	 * The source is NOT invoked until the stream is iterated.
+	 * If an external signal is provided, aborting it will also cancel this stream.
+	 *
+	 * @param source - Function returning the iterable of values. Receives the signal of the iteration.
+	 * @param externalSignal - Optional AbortSignal that will cancel this stream when aborted
+	 *
+	 * @example
+	 * ```typescript
+	 * const ticks = new FuturableStream(async function* (signal) {
+	 *   for (let i = 0; ; i++) {
+	 *     await Futurable.sleep({ timer: 1000, signal });
+	 *     yield i;
+	 *   }
+	 * });
+	 * ```
+	 */
+	constructor(private readonly source: FuturableStreamSource<T>, externalSignal?: AbortSignal) {
+		this.controller = new AbortController();
+
+		if (externalSignal) {
+			if (externalSignal.aborted) {
+				this.controller.abort(externalSignal.reason);
+			} else {
+				externalSignal.addEventListener("abort", () => this.controller.abort(externalSignal.reason), { once: true });
+			}
+		}
+	}
+
+	/**
+	 * Returns the internal AbortSignal for this stream.
+	 * This signal is aborted when cancel() is called on the stream.
+	 *
+	 * @returns The internal AbortSignal
+	 */
+	get signal(): AbortSignal {
+		return this.controller.signal;
+	}
+
+	/**
+	 * Cancels the stream: every ongoing iteration stops and later iterations produce no values.
+	 *
+	 * @param reason - Optional cancellation reason, exposed through `signal.reason`
+	 *
+	 * @example
+	 * ```typescript
+	 * const stream = FuturableStream.from(pollEvents);
+	 * setTimeout(() => stream.cancel('Shutting down'), 10_000);
+	 *
+	 * for await (const event of stream) {
+	 *   handle(event);
+	 * } // Ends after 10s
+	 * ```
+	 */
+	cancel(reason?: any): void {
+		if (!this.controller.signal.aborted) {
+			this.controller.abort(reason);
+		}
+	}
+
+	/**
+	 * Returns an async iterator over the values of the stream.
+	 * Allows consuming the stream with `for await...of`.
+	 *
+	 * @returns A new iteration of the stream
+	 */
+	[Symbol.asyncIterator](): AsyncIterator<T> {
+		return this.iterate();
+	}
+
+	/**
+	 * Starts a new iteration of the stream, bound to an optional external signal.
+	 *
+	 * The iteration ends without error when the signal (or the stream) is aborted.
+	 * Breaking out of the loop aborts the signal passed to the source and closes it.
+	 *
+	 * @param signal - Optional AbortSignal that stops this iteration when aborted
+	 * @returns An async generator over the values of the stream
+	 *
+	 * @example
+	 * ```typescript
+	 * const controller = new AbortController();
+	 * for await (const message of messages.iterate(controller.signal)) {
+	 *   if (message.type === 'bye') controller.abort();
+	 * }
+	 * ```
+	 */
+	async *iterate(signal?: AbortSignal): AsyncGenerator<T, void, undefined> {
+		const controller = new AbortController();
+		const links = [this.signal, signal].filter((link): link is AbortSignal => !!link);
+		const abort = (link: AbortSignal) => () => controller.abort(link.reason);
+		const listeners = links.map(link => {
+			const listener = abort(link);
+			if (link.aborted) {
+				listener();
+			} else {
+				link.addEventListener("abort", listener, { once: true });
+			}
+			return listener;
+		});
+
+		if (controller.signal.aborted) {
+			return;
+		}
+
+		let iterator: AsyncIterator<T> | Iterator<T> | undefined;
+		let pending = false;
+		try {
+			const iterable = this.source(controller.signal);
+			iterator = Symbol.asyncIterator in iterable
+				? (iterable as AsyncIterable<T>)[Symbol.asyncIterator]()
+				: (iterable as Iterable<T>)[Symbol.iterator]();
+			while (!controller.signal.aborted) {
+				pending = true;
+				const result = await FuturableStream.untilAborted(iterator.next(), controller.signal);
+				if (!result || result.done) {
+					return;
+				}
+				pending = false;
+				yield result.value;
+			}
+		} finally {
+			links.forEach((link, i) => link.removeEventListener("abort", listeners[i]));
+			controller.abort();
+			if (pending) {
+				// The source is stuck on a value nobody will consume: close it without waiting
+				Promise.resolve(iterator?.return?.()).catch(() => {});
+			} else {
+				await iterator?.return?.();
+			}
+		}
+	}
+
+	/**
+	 * Transforms each value of the stream.
+	 *
+	 * @template U - The type of the transformed values
+	 * @param fn - Transformation function, may be async. Receives the value and the iteration signal.
+	 * @returns A new FuturableStream of transformed values
+	 *
+	 * @example
+	 * ```typescript
+	 * const names = users.map(user => user.name);
+	 * const profiles = users.map((user, signal) => loadProfile(user.id, signal));
+	 * ```
+	 */
+	map<U>(fn: (value: T, signal: AbortSignal) => U | Promise<U>): FuturableStream<U> {
+		return this.pipeThrough<U>(async function* (source, signal) {
+			for await (const value of source) {
+				yield await fn(value, signal);
+			}
+		});
+	}
+
+	/**
+	 * Keeps only the values satisfying the predicate.
+	 *
+	 * @param predicate - Function deciding whether a value is kept, may be async
+	 * @returns A new FuturableStream of the kept values
+	 *
+	 * @example
+	 * ```typescript
+	 * const active = users.filter(user => user.active);
+	 * ```
+	 */
+	filter(predicate: (value: T) => boolean | Promise<boolean>): FuturableStream<T> {
+		return this.pipeThrough<T>(async function* (source) {
+			for await (const value of source) {
+				if (await predicate(value)) {
+					yield value;
+				}
+			}
+		});
+	}
+
+	/**
+	 * Takes the first n values, then stops the upstream iteration.
+	 * Once n values have been produced, no further values are fetched from the source.
+	 *
+	 * @param n - Maximum number of values to produce
+	 * @returns A new FuturableStream of at most n values
+	 *
+	 * @example
+	 * ```typescript
+	 * const firstTen = await results.take(10).toArray().run();
+	 * ```
+	 */
+	take(n: number): FuturableStream<T> {
+		return this.pipeThrough<T>(async function* (source) {
+			if (n <= 0) {
+				return;
+			}
+			let count = 0;
+			for await (const value of source) {
+				yield value;
+				if (++count >= n) {
+					return;
+				}
+			}
+		});
+	}
+
+	/**
+	 * Groups values into arrays of the given size.
+	 * The last array holds the remaining values and may be shorter.
+	 *
+	 * @param size - Number of values per array (must be >= 1)
+	 * @returns A new FuturableStream of arrays
+	 * @throws {RangeError} If size is lower than 1
+	 *
+	 * @example
+	 * ```typescript
+	 * for await (const batch of events.buffer(100)) {
+	 *   await saveMany(batch);
+	 * }
+	 * ```
+	 */
+	buffer(size: number): FuturableStream<T[]> {
+		if (!(size >= 1)) {
+			throw new RangeError(`Buffer size must be at least 1, received ${size}`);
+		}
+		return this.pipeThrough<T[]>(async function* (source) {
+			let chunk: T[] = [];
+			for await (const value of source) {
+				chunk.push(value);
+				if (chunk.length >= size) {
+					yield chunk;
+					chunk = [];
+				}
+			}
+			if (chunk.length > 0) {
+				yield chunk;
+			}
+		});
+	}
+
+	/**
+	 * Maps each value to a FuturableTask or an async iterable and merges their results,
+	 * running at most `concurrency` of them at the same time.
+	 *
+	 * Results are produced in completion order. The first failure stops the stream, cancelling
+	 * the inner work still running; breaking out of the loop cancels it as well.
+	 *
+	 * @template U - The type of the merged values
+	 * @param fn - Function returning a FuturableTask (one value) or an async iterable (many values).
+	 *             Receives the value and the iteration signal.
+	 * @param concurrency - Maximum number of inner tasks or streams running at once (default: Infinity)
+	 * @returns A new FuturableStream of merged values
+	 * @throws {RangeError} If concurrency is lower than 1
+	 *
+	 * @example
+	 * ```typescript
+	 * const users = FuturableStream.from(userIds)
+	 *   .mergeMap(id => FuturableTask.fetch(`/api/users/${id}`).map(res => res.json()), 5);
+	 * ```
+	 *
+	 * @example
+	 * ```typescript
+	 * // Flattening paginated children
+	 * const comments = posts.mergeMap(post => commentsOf(post.id), 2);
+	 * ```
+	 */
+	mergeMap<U>(fn: (value: T, signal: AbortSignal) => FuturableTask<U, any> | AsyncIterable<U>, concurrency: number = Infinity): FuturableStream<U> {
+		if (!(concurrency >= 1)) {
+			throw new RangeError(`Concurrency must be at least 1, received ${concurrency}`);
+		}
+		return this.pipeThrough<U>((source, signal) => FuturableStream.merge(source, fn, concurrency, signal));
+	}
+
+	/**
+	 * Collects every value of the stream into an array.
+	 *
+	 * The returned task is lazy: each run iterates the stream again.
+	 * Cancelling the run stops the iteration.
+	 *
+	 * @returns A FuturableTask resolving with all the values of the stream
+	 *
+	 * @example
+	 * ```typescript
+	 * const task = users.map(user => user.id).toArray();
+	 * const ids = await task.run();
+	 * ```
+	 */
+	toArray(): FuturableTask<T[]> {
+		return new FuturableTask<T[]>(async (res, rej, utils) => {
+			const values: T[] = [];
+			try {
+				for await (const value of this.iterate(utils.signal)) {
+					values.push(value);
+				}
+			} catch (error) {
+				return rej(error);
+			}
+			if (!utils.signal.aborted) {
+				res(values);
+			}
+		}, this.signal);
+	}
+
+	/**
+	 * Creates a FuturableStream from an iterable, an async iterable or a source function.
+	 *
+	 * Plain iterables are iterated again on every iteration of the stream; use a source
+	 * function to produce fresh values (and receive the iteration signal) each time.
+	 *
+	 * @template T - The type of the values produced
+	 * @param input - Iterable, async iterable or source function
+	 * @param signal - Optional AbortSignal that will cancel the stream when aborted
+	 * @returns A new FuturableStream
+	 *
+	 * @example
+	 * ```typescript
+	 * const numbers = FuturableStream.from([1, 2, 3]);
+	 * const lines = FuturableStream.from(readline.createInterface({ input }));
+	 * const pages = FuturableStream.from(async function* (signal) {
+	 *   yield* await fetchPages(signal);
+	 * });
+	 * ```
+	 */
+	static from<T>(input: Iterable<T> | AsyncIterable<T> | FuturableStreamSource<T>, signal?: AbortSignal): FuturableStream<T> {
+		if (input instanceof FuturableStream && !signal) {
+			return input;
+		}
+		return new FuturableStream<T>(typeof input === "function" ? input : () => input, signal);
+	}
+
+	/**
+	 * Creates a stream whose source applies a transformation to an iteration of this stream.
+	 *
+	 * @private
+	 */
+	private pipeThrough<U>(transform: (source: AsyncIterable<T>, signal: AbortSignal) => AsyncIterable<U>): FuturableStream<U> {
+		return new FuturableStream<U>(signal => transform(this.iterate(signal), signal), this.signal);
+	}
+
+	/**
+	 * Resolves with the result of the promise, or with undefined as soon as the signal is aborted.
+	 *
+	 * @private
+	 */
+	private static untilAborted<R>(value: R | Promise<R>, signal: AbortSignal): Promise<R | undefined> {
+		return new Promise<R | undefined>((resolve, reject) => {
+			const onAbort = () => resolve(undefined);
+			signal.addEventListener("abort", onAbort, { once: true });
+			Promise.resolve(value).then(
+				result => {
+					signal.removeEventListener("abort", onAbort);
+					resolve(result);
+				},
+				error => {
+					signal.removeEventListener("abort", onAbort);
+					reject(error);
+				}
+			);
+		});
+	}
+
+	/**
+	 * Runs the inner tasks or streams produced by fn with bounded concurrency, yielding
+	 * their values in completion order.
+	 *
+	 * @private
+	 */
+	private static async *merge<T, U>(
+		source: AsyncIterable<T>,
+		fn: (value: T, signal: AbortSignal) => FuturableTask<U, any> | AsyncIterable<U>,
+		concurrency: number,
+		signal: AbortSignal
+	): AsyncGenerator<U, void, undefined> {
+		const controller = new AbortController();
+		const onAbort = () => controller.abort(signal.reason);
+		signal.addEventListener("abort", onAbort, { once: true });
+
+		const outer = source[Symbol.asyncIterator]();
+		const results: U[] = [];
+		let failure: { error: unknown } | undefined;
+		let active = 0;
+		let pulling = false;
+		let exhausted = false;
+		let wake: (() => void) | undefined;
+
+		const notify = () => {
+			const resolve = wake;
+			wake = undefined;
+			resolve?.();
+		};
+		const fail = (error: unknown) => {
+			failure ??= { error };
+			notify();
+		};
+		const runInner = async (value: T) => {
+			try {
+				const inner = fn(value, controller.signal);
+				if (inner instanceof FuturableTask) {
+					results.push(await inner.run(controller.signal));
+				} else {
+					for await (const item of FuturableStream.from(inner).iterate(controller.signal)) {
+						results.push(item);
+						notify();
+					}
+				}
+			} catch (error) {
+				return fail(error);
+			}
+			active--;
+			notify();
+		};
+		controller.signal.addEventListener("abort", notify, { once: true });
+
+		try {
+			while (!controller.signal.aborted) {
+				if (!pulling && !exhausted && !failure && active < concurrency) {
+					pulling = true;
+					outer.next().then(result => {
+						pulling = false;
+						if (result.done) {
+							exhausted = true;
+						} else {
+							active++;
+							runInner(result.value);
+						}
+						notify();
+					}, fail);
+				}
+				if (results.length > 0) {
+					yield results.shift()!;
+					continue;
+				}
+				if (failure) {
+					throw failure.error;
+				}
+				if (exhausted && active === 0) {
+					return;
+				}
+				await new Promise<void>(resolve => wake = resolve);
+			}
+		} finally {
+			signal.removeEventListener("abort", onAbort);
+			controller.abort();
+			Promise.resolve(outer.return?.()).catch(() => {});
+		}
+	}
+}
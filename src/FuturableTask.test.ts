@@ -1,6 +1,10 @@
-import { describe, it, expect, vi, beforeEach, afterEach, beforeAll } from 'vitest';
-import { FuturableTask, FuturableTaskLimiter } from './FuturableTask';
-import { Futurable } from './Futurable';
+import { describe, it, expect, expectTypeOf, vi, beforeEach, afterEach, beforeAll } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FuturableTask, FuturableTaskLimiter, CircuitOpenError, TimeoutError, ServerSentEvent, CacheFileSystem } from './FuturableTask';
+import { Futurable, CancellationError, HttpError, SafeResult, FuturableUtils } from './Futurable';
+import { FuturableStream } from './FuturableStream';
 
 // Mock timers
 vi.useFakeTimers();
@@ -88,6 +92,55 @@ describe('FuturableTask', () => {
 			task.cancel();
 			expect(callback).toHaveBeenCalledTimes(1);
 		});
+
+		it('should propagate the reason to running executions', () => {
+			const task = new FuturableTask(() => { });
+			const run = task.run();
+			task.cancel('stop');
+			expect(task.signal.reason).toBe('stop');
+			expect(run.signal.reason).toBe('stop');
+		});
+
+		it('should reject executions with CancellationError when rejectOnCancel option is set', async () => {
+			const task = new FuturableTask<string>((resolve) => {
+				setTimeout(() => resolve('test'), 100);
+			}, { rejectOnCancel: true });
+			const run = task.run();
+			task.cancel('stop');
+			const error = await run.catch(err => err);
+			expect(error).toBeInstanceOf(CancellationError);
+			expect(error.reason).toBe('stop');
+		});
+
+		it('should reject executions cancelled through an override signal', async () => {
+			const controller = new AbortController();
+			const task = new FuturableTask(() => { }, { rejectOnCancel: true });
+			const run = task.run(controller.signal);
+			controller.abort('override');
+			await expect(run).rejects.toMatchObject({ reason: 'override' });
+			expect(task.signal.aborted).toBe(false);
+		});
+	});
+
+	describe('rejectOnCancel', () => {
+		it('should return a new task whose runs reject on cancellation', async () => {
+			const source = FuturableTask.delay(100).map(() => 42);
+			const task = source.rejectOnCancel();
+			expect(task).not.toBe(source);
+			const run = task.run();
+			run.cancel('stop');
+			await expect(run).rejects.toBeInstanceOf(CancellationError);
+		});
+
+		it('should reject runs of an already cancelled task', async () => {
+			const task = FuturableTask.resolve(1).rejectOnCancel();
+			task.cancel();
+			await expect(task.run()).rejects.toBeInstanceOf(CancellationError);
+		});
+
+		it('should resolve normally when not cancelled', async () => {
+			await expect(FuturableTask.resolve(1).rejectOnCancel().run()).resolves.toBe(1);
+		});
 	});
 
 	describe('onCancel', () => {
@@ -293,6 +346,294 @@ describe('FuturableTask', () => {
 				const result2 = await task.run();
 				expect(result2).toBe(2); // New execution because previous was aborted
 			});
+
+			it('should accept a config object with catchErrors', async () => {
+				let counter = 0;
+				const task = new FuturableTask((_, reject) => {
+					reject(++counter);
+				}).memoize({ catchErrors: true });
+
+				await expect(task.run()).rejects.toBe(1);
+				await expect(task.run()).rejects.toBe(1);
+			});
+
+			it('should re-execute after the ttl has expired', async () => {
+				let counter = 0;
+				const task = new FuturableTask<number>((resolve) => {
+					resolve(++counter);
+				}).memoize({ ttl: 1000 });
+
+				await expect(task.run()).resolves.toBe(1);
+				await vi.advanceTimersByTimeAsync(999);
+				await expect(task.run()).resolves.toBe(1);
+				await vi.advanceTimersByTimeAsync(1);
+				await expect(task.run()).resolves.toBe(2);
+			});
+
+			it('should serve stale results while revalidating in the background', async () => {
+				let counter = 0;
+				const task = new FuturableTask<number>((resolve) => {
+					const value = ++counter;
+					setTimeout(() => resolve(value), 100);
+				}).memoize({ ttl: 1000, staleWhileRevalidate: true });
+
+				const first = task.run();
+				await vi.advanceTimersByTimeAsync(100);
+				await expect(first).resolves.toBe(1);
+
+				await vi.advanceTimersByTimeAsync(1000);
+				await expect(task.run()).resolves.toBe(1);
+				await expect(task.run()).resolves.toBe(1);
+				expect(counter).toBe(2);
+
+				await vi.advanceTimersByTimeAsync(100);
+				await expect(task.run()).resolves.toBe(2);
+				expect(task.cacheAge).toBe(0);
+			});
+
+			it('should keep the stale result when revalidation fails', async () => {
+				let counter = 0;
+				const task = new FuturableTask<number>((resolve, reject) => {
+					counter++;
+					counter === 2 ? reject('refresh failed') : resolve(counter);
+				}).memoize({ ttl: 1000, staleWhileRevalidate: true });
+
+				await expect(task.run()).resolves.toBe(1);
+				await vi.advanceTimersByTimeAsync(1000);
+				await expect(task.run()).resolves.toBe(1);
+				await vi.advanceTimersByTimeAsync(0);
+				await expect(task.run()).resolves.toBe(1);
+				await vi.advanceTimersByTimeAsync(0);
+				await expect(task.run()).resolves.toBe(3);
+			});
+
+			it('should report the cache age', async () => {
+				const task = new FuturableTask<number>((resolve) => {
+					setTimeout(() => resolve(1), 100);
+				}).memoize();
+
+				expect(task.cacheAge).toBeUndefined();
+				task.run();
+				expect(task.cacheAge).toBeUndefined();
+				await vi.advanceTimersByTimeAsync(100);
+				expect(task.cacheAge).toBe(0);
+				await vi.advanceTimersByTimeAsync(250);
+				expect(task.cacheAge).toBe(250);
+			});
+
+			it('should execute again after invalidate', async () => {
+				let counter = 0;
+				const task = new FuturableTask<number>((resolve) => {
+					resolve(++counter);
+				}).memoize();
+
+				await expect(task.run()).resolves.toBe(1);
+				task.invalidate();
+				expect(task.cacheAge).toBeUndefined();
+				await expect(task.run()).resolves.toBe(2);
+				await expect(task.run()).resolves.toBe(2);
+			});
+
+			it('should restore persisted results from a store', async () => {
+				const store = FuturableTask.createMemoryStore();
+				const executor = vi.fn((resolve: (value: { id: number }) => void) => resolve({ id: 1 }));
+				const persist = { store, key: 'user' };
+
+				const first = new FuturableTask(executor).memoize({ persist });
+				await expect(first.run()).resolves.toEqual({ id: 1 });
+				expect(JSON.parse(store.get('user') as string)).toEqual({ value: '{"id":1}', cachedAt: Date.now() });
+
+				const second = new FuturableTask(executor).memoize({ persist });
+				await expect(second.run()).resolves.toEqual({ id: 1 });
+				expect(executor).toHaveBeenCalledTimes(1);
+			});
+
+			it('should persist with the ttl and custom serializers', async () => {
+				const store = FuturableTask.createMemoryStore();
+				const setSpy = vi.spyOn(store, 'set');
+				const task = FuturableTask.resolve(new Date(0)).memoize({
+					ttl: 1000,
+					persist: {
+						store,
+						key: 'date',
+						serialize: date => String(date.getTime()),
+						deserialize: raw => new Date(Number(raw))
+					}
+				});
+
+				await task.run();
+				expect(setSpy).toHaveBeenCalledWith('date', JSON.stringify({ value: '0', cachedAt: Date.now() }), 1000);
+
+				const restored = FuturableTask.resolve(new Date(5)).memoize({
+					persist: { store, key: 'date', deserialize: raw => new Date(Number(raw)) }
+				});
+				await expect(restored.run()).resolves.toEqual(new Date(0));
+			});
+
+			it('should keep the age of restored results', async () => {
+				const store = new Map<string, string>();
+				const persistent = {
+					get: (key: string) => store.get(key),
+					set: (key: string, value: string) => {
+						store.set(key, value);
+					},
+					delete: (key: string) => {
+						store.delete(key);
+					}
+				};
+				let counter = 0;
+				const create = () => FuturableTask.of(() => ++counter).memoize({ ttl: 1000, persist: { store: persistent, key: 'counter' } });
+
+				await expect(create().run()).resolves.toBe(1);
+				await vi.advanceTimersByTimeAsync(600);
+
+				const restored = create();
+				await expect(restored.run()).resolves.toBe(1);
+				expect(restored.cacheAge).toBe(600);
+				await vi.advanceTimersByTimeAsync(400);
+				await expect(restored.run()).resolves.toBe(2);
+
+				// An entry older than the ttl is a miss, even if the store did not expire it
+				await vi.advanceTimersByTimeAsync(1000);
+				await expect(create().run()).resolves.toBe(3);
+			});
+
+			it('should not persist failures and treat store errors as misses', async () => {
+				const store = {
+					get: vi.fn(() => Promise.reject(new Error('unavailable'))),
+					set: vi.fn(),
+					delete: vi.fn()
+				};
+				const failing = FuturableTask.reject(new Error('boom')).memoize({ persist: { store, key: 'k' } });
+				await expect(failing.run()).rejects.toThrow('boom');
+				expect(store.set).not.toHaveBeenCalled();
+
+				const working = FuturableTask.resolve(1).memoize({ persist: { store, key: 'k' } });
+				await expect(working.run()).resolves.toBe(1);
+				expect(store.set).toHaveBeenCalledWith('k', JSON.stringify({ value: '1', cachedAt: Date.now() }), undefined);
+			});
+
+			it('should delete the persisted entry on invalidate', async () => {
+				const store = FuturableTask.createMemoryStore();
+				let counter = 0;
+				const task = FuturableTask.of(() => ++counter).memoize({ persist: { store, key: 'counter' } });
+
+				await task.run();
+				task.invalidate();
+				await vi.advanceTimersByTimeAsync(0);
+				expect(store.get('counter')).toBeUndefined();
+				await expect(task.run()).resolves.toBe(2);
+			});
+
+			it('should keep memoize settings when switching to rejectOnCancel', async () => {
+				let counter = 0;
+				const task = new FuturableTask<number>((resolve) => {
+					resolve(++counter);
+				}).memoize({ ttl: 100 }).rejectOnCancel();
+
+				await expect(task.run()).resolves.toBe(1);
+				await expect(task.run()).resolves.toBe(1);
+				await vi.advanceTimersByTimeAsync(100);
+				await expect(task.run()).resolves.toBe(2);
+			});
+		});
+
+		describe('share', () => {
+			const slowTask = (executor: () => void, value = 'data') => new FuturableTask<string>((resolve, _, utils) => {
+				executor();
+				const id = setTimeout(() => resolve(value), 100);
+				utils.onCancel(() => clearTimeout(id));
+			});
+
+			it('should join concurrent runs into a single execution', async () => {
+				const executor = vi.fn();
+				const task = slowTask(executor).share();
+
+				const runs = [task.run(), task.run(), task.run()];
+				await vi.advanceTimersByTimeAsync(100);
+
+				await expect(Promise.all(runs)).resolves.toEqual(['data', 'data', 'data']);
+				expect(executor).toHaveBeenCalledTimes(1);
+			});
+
+			it('should start a fresh execution after the previous one settled', async () => {
+				const executor = vi.fn();
+				const task = slowTask(executor).share();
+
+				const first = task.run();
+				await vi.advanceTimersByTimeAsync(100);
+				await first;
+
+				const second = task.run();
+				await vi.advanceTimersByTimeAsync(100);
+				await second;
+				expect(executor).toHaveBeenCalledTimes(2);
+			});
+
+			it('should share rejections', async () => {
+				const executor = vi.fn();
+				const task = new FuturableTask<string>((_, reject) => {
+					executor();
+					reject(new Error('boom'));
+				}).share();
+
+				const a = task.run();
+				const b = task.run();
+				await expect(a).rejects.toThrow('boom');
+				await expect(b).rejects.toThrow('boom');
+				expect(executor).toHaveBeenCalledTimes(1);
+			});
+
+			it('should cancel the shared execution only when every subscriber cancelled', async () => {
+				const onCancel = vi.fn();
+				const task = new FuturableTask<string>((resolve, _, utils) => {
+					const id = setTimeout(() => resolve('data'), 100);
+					utils.onCancel(() => {
+						clearTimeout(id);
+						onCancel();
+					});
+				}).share();
+
+				const a = task.run();
+				const b = task.run();
+				a.cancel();
+				expect(onCancel).not.toHaveBeenCalled();
+
+				b.cancel();
+				expect(onCancel).toHaveBeenCalledTimes(1);
+			});
+
+			it('should keep delivering to remaining subscribers after a partial cancel', async () => {
+				const task = slowTask(() => {}).share();
+				const a = task.run();
+				const b = task.run();
+				a.cancel();
+
+				await vi.advanceTimersByTimeAsync(100);
+				await expect(b).resolves.toBe('data');
+			});
+
+			it('should start fresh after all subscribers cancelled', async () => {
+				const executor = vi.fn();
+				const task = slowTask(executor).share();
+
+				task.run().cancel();
+				const next = task.run();
+				await vi.advanceTimersByTimeAsync(100);
+
+				await expect(next).resolves.toBe('data');
+				expect(executor).toHaveBeenCalledTimes(2);
+			});
+
+			it('should be available as singleFlight', async () => {
+				const executor = vi.fn();
+				const task = slowTask(executor).singleFlight();
+
+				const runs = [task.run(), task.run()];
+				await vi.advanceTimersByTimeAsync(100);
+				await Promise.all(runs);
+				expect(executor).toHaveBeenCalledTimes(1);
+			});
 		});
 
 		describe('map', () => {
@@ -485,7 +826,7 @@ describe('FuturableTask', () => {
 			it('should catch errors', async () => {
 				const task = new FuturableTask((_, reject) => {
 					reject(new Error('test error'));
-				}).catchError((err) => FuturableTask.resolve(`caught: ${err.message}`));
+				}).catchError(err => FuturableTask.resolve(`caught: ${err instanceof Error ? err.message : err}`));
 				await expect(task.run()).resolves.toBe('caught: test error');
 			});
 
@@ -499,6 +840,70 @@ describe('FuturableTask', () => {
 			});
 		});
 
+		describe('typed error channel', () => {
+			class NotFoundError extends Error {
+				readonly kind = 'not-found';
+			}
+			class NetworkError extends Error {
+				readonly kind = 'network';
+			}
+
+			it('should infer the error type of runSafe from the task', async () => {
+				const task = FuturableTask.reject<number, NotFoundError>(new NotFoundError('missing'));
+				const result = await task.runSafe();
+				expectTypeOf(result).toEqualTypeOf<SafeResult<number, NotFoundError>>();
+				expect(result.success).toBe(false);
+				if (!result.success) {
+					expect(result.error.kind).toBe('not-found');
+				}
+			});
+
+			it('should flow the error type through map, retry and flatMap', async () => {
+				const task = FuturableTask.reject<number, NotFoundError>(new NotFoundError('missing'))
+					.map(n => String(n))
+					.retry(1)
+					.flatMap(s => FuturableTask.reject<string, NetworkError>(new NetworkError(s)));
+				expectTypeOf(task).toEqualTypeOf<FuturableTask<string, NotFoundError | NetworkError>>();
+				await expect(task.run()).rejects.toBeInstanceOf(NotFoundError);
+			});
+
+			it('should add the timeout reason to the error type', async () => {
+				const task = new FuturableTask<number, NotFoundError>(() => {}).timeout(100, new NetworkError('slow'));
+				expectTypeOf(task).toEqualTypeOf<FuturableTask<number, NotFoundError | NetworkError>>();
+				const run = task.run();
+				vi.advanceTimersByTime(100);
+				await expect(run).rejects.toBeInstanceOf(NetworkError);
+			});
+
+			it('should narrow the error type in catchError', async () => {
+				const task = FuturableTask.reject<number, NotFoundError | NetworkError>(new NotFoundError('missing'))
+					.catchError(err =>
+						err instanceof NotFoundError
+							? FuturableTask.resolve(null)
+							: FuturableTask.reject<never, NetworkError>(err)
+					);
+				expectTypeOf(task).toEqualTypeOf<FuturableTask<number | null, NetworkError>>();
+				await expect(task.run()).resolves.toBeNull();
+			});
+
+			it('should pass the typed error to tapError, bimap and fold', async () => {
+				const tapped = vi.fn();
+				const task = FuturableTask.reject<number, NotFoundError>(new NotFoundError('missing'))
+					.tapError(err => tapped(err.kind))
+					.bimap(n => n * 2, err => err.kind);
+				expectTypeOf(task).toEqualTypeOf<FuturableTask<number, string>>();
+				await expect(task.run()).rejects.toBe('not-found');
+				expect(tapped).toHaveBeenCalledWith('not-found');
+
+				const folded = task.fold(
+					kind => FuturableTask.resolve(`failed: ${kind}`),
+					n => FuturableTask.resolve(`value: ${n}`)
+				);
+				expectTypeOf(folded).toEqualTypeOf<FuturableTask<string, never>>();
+				await expect(folded.run()).resolves.toBe('failed: not-found');
+			});
+		});
+
 		describe('orElse', () => {
 			it('should provide alternative on error', async () => {
 				const task = new FuturableTask<number>((_, reject) => {
@@ -613,9 +1018,49 @@ describe('FuturableTask', () => {
 					setTimeout(() => resolve(42), 200);
 				}).timeout(100);
 				const promise = task.run();
-				const result = expect(promise).rejects.toBe('TimeoutExceeded');
+				const result = expect(promise).rejects.toBeInstanceOf(TimeoutError);
+				await vi.advanceTimersByTimeAsync(100);
+				await result;
+			});
+
+			it('should reject with a TimeoutError carrying the configured and elapsed time', async () => {
+				const task = new FuturableTask<number, RangeError>(() => {}).timeout(100);
+				expectTypeOf(task).toEqualTypeOf<FuturableTask<number, RangeError | TimeoutError>>();
+				const promise = task.run().catch(err => err);
+				await vi.advanceTimersByTimeAsync(100);
+				const error = await promise;
+				expect(error).toBeInstanceOf(TimeoutError);
+				expect(error.timeout).toBe(100);
+				expect(error.elapsed).toBe(100);
+				expect(error.message).toBe('Timed out after 100ms');
+			});
+
+			it('should abort the signal of the inner run', async () => {
+				let innerSignal: AbortSignal | undefined;
+				const task = new FuturableTask<number>((_, __, utils) => {
+					innerSignal = utils.signal;
+				}).timeout(100);
+				const promise = task.run().catch(() => {});
+				expect(innerSignal!.aborted).toBe(false);
 				await vi.advanceTimersByTimeAsync(100);
+				await promise;
+				expect(innerSignal!.aborted).toBe(true);
+				expect(innerSignal!.reason).toBeInstanceOf(TimeoutError);
+			});
+
+			it('should not let an inner retry sleep past the timeout', async () => {
+				let attempts = 0;
+				const task = new FuturableTask<number>((_, reject) => {
+					attempts++;
+					reject(new Error(`failure ${attempts}`));
+				})
+					.retry(5, { delay: 40, backoff: 'exponential' })
+					.timeout(100);
+				const promise = task.run();
+				const result = expect(promise).rejects.toThrow('failure 2');
+				await vi.advanceTimersByTimeAsync(40);
 				await result;
+				expect(attempts).toBe(2);
 			});
 
 			it('should resolve if completes in time', async () => {
@@ -661,6 +1106,65 @@ describe('FuturableTask', () => {
 			});
 		});
 
+		describe('withDeadline', () => {
+			it('should reject with a TimeoutError when the deadline passes', async () => {
+				const deadline = new Date(Date.now() + 150);
+				const task = new FuturableTask<number>(res => {
+					setTimeout(() => res(42), 200);
+				}).withDeadline(deadline);
+				const promise = task.run().catch(err => err);
+				await vi.advanceTimersByTimeAsync(150);
+				const error = await promise;
+				expect(error).toBeInstanceOf(TimeoutError);
+				expect(error.deadline).toBe(deadline.getTime());
+				expect(error.timeout).toBe(150);
+			});
+
+			it('should accept a timestamp and resolve when completed in time', async () => {
+				const task = new FuturableTask<number>(res => {
+					setTimeout(() => res(42), 50);
+				}).withDeadline(Date.now() + 100);
+				const promise = task.run();
+				await vi.advanceTimersByTimeAsync(50);
+				await expect(promise).resolves.toBe(42);
+			});
+
+			it('should reject immediately when the deadline has already passed', async () => {
+				const task = new FuturableTask<number>(() => {}).withDeadline(Date.now() - 10);
+				const promise = task.run();
+				const result = expect(promise).rejects.toBeInstanceOf(TimeoutError);
+				await vi.advanceTimersByTimeAsync(0);
+				await result;
+			});
+
+			it('should propagate the deadline to retries of nested tasks', async () => {
+				const onRetry = vi.fn();
+				const inner = new FuturableTask<number>((_, reject) => reject(new Error('unavailable')))
+					.retry(10, { delay: 100, onRetry });
+				const task = FuturableTask.resolve(1)
+					.flatMap(() => inner)
+					.withDeadline(Date.now() + 250);
+				const promise = task.run();
+				const result = expect(promise).rejects.toThrow('unavailable');
+				await vi.advanceTimersByTimeAsync(200);
+				await result;
+				expect(onRetry).toHaveBeenCalledTimes(2);
+			});
+
+			it('should use the tightest of nested deadlines', async () => {
+				let innerSignal: AbortSignal | undefined;
+				const task = new FuturableTask<number>((_, __, utils) => {
+					innerSignal = utils.signal;
+				})
+					.withDeadline(Date.now() + 500)
+					.timeout(100);
+				const promise = task.run().catch(err => err);
+				await vi.advanceTimersByTimeAsync(100);
+				expect((await promise).timeout).toBe(100);
+				expect(innerSignal!.aborted).toBe(true);
+			});
+		});
+
 		describe('delay', () => {
 			it('should delay execution', async () => {
 				const task = new FuturableTask((resolve) => {
@@ -732,67 +1236,330 @@ describe('FuturableTask', () => {
 				await vi.advanceTimersByTimeAsync(100);
 				await expect(promise).resolves.toBe('success');
 			});
-		});
 
-		describe('debounce', () => {
-			it('should debounce executions', async () => {
-				let counter = 0;
-				const sourceTask = new FuturableTask((resolve) => {
-					resolve(++counter);
-				});
-				const task = sourceTask.debounce(100);
+			it('should apply exponential backoff capped by maxDelay', async () => {
+				const onRetry = vi.fn();
+				const task = new FuturableTask((_, reject) => {
+					reject('error');
+				}).retry(4, { delay: 100, backoff: 'exponential', maxDelay: 300, onRetry });
 
-				const run1 = task.run();
-				await vi.advanceTimersByTimeAsync(50);
-				const run2 = task.run();
-				await vi.advanceTimersByTimeAsync(50);
-				const run3 = task.run();
+				const promise = task.run();
+				const result = expect(promise).rejects.toBe('error');
+				await vi.advanceTimersByTimeAsync(1000);
+				await result;
+				expect(onRetry.mock.calls.map(call => call[2])).toEqual([100, 200, 300, 300]);
+				expect(onRetry.mock.calls.map(call => call[1])).toEqual([1, 2, 3, 4]);
+			});
+
+			it('should apply linear backoff', async () => {
+				let attempts = 0;
+				const task = new FuturableTask((resolve, reject) => {
+					attempts++;
+					attempts < 3 ? reject('error') : resolve('success');
+				}).retry(3, { delay: 100, backoff: 'linear' });
+
+				const promise = task.run();
 				await vi.advanceTimersByTimeAsync(100);
+				expect(attempts).toBe(2);
+				await vi.advanceTimersByTimeAsync(199);
+				expect(attempts).toBe(2);
+				await vi.advanceTimersByTimeAsync(1);
+				await expect(promise).resolves.toBe('success');
+			});
 
-				expect(await run3).toBe(1);
+			it('should keep decorrelated jitter delays within bounds', async () => {
+				const random = vi.spyOn(Math, 'random').mockReturnValue(1);
+				const onRetry = vi.fn();
+				const task = new FuturableTask((_, reject) => {
+					reject('error');
+				}).retry(3, { delay: 100, backoff: 'decorrelated-jitter', maxDelay: 500, onRetry });
+
+				const promise = task.run();
+				const result = expect(promise).rejects.toBe('error');
+				await vi.advanceTimersByTimeAsync(2000);
+				await result;
+				expect(onRetry.mock.calls.map(call => call[2])).toEqual([300, 500, 500]);
+				random.mockRestore();
 			});
 
-			it('should handle debounce on already debounced task', async () => {
-				let counter = 0;
-				const sourceTask = new FuturableTask((resolve) => {
-					resolve(++counter);
-				});
-				const debounced1 = sourceTask.debounce(100);
-				const debounced2 = debounced1.debounce(50);
+			it('should stop retrying when shouldRetry returns false', async () => {
+				let attempts = 0;
+				const shouldRetry = vi.fn((error: any) => error !== 'fatal');
+				const task = new FuturableTask((_, reject) => {
+					attempts++;
+					reject(attempts < 2 ? 'transient' : 'fatal');
+				}).retry(5, { shouldRetry });
 
-				const run1 = debounced2.run();
-				await vi.advanceTimersByTimeAsync(50);
-				expect(await run1).toBe(1);
+				await expect(task.run()).rejects.toBe('fatal');
+				expect(attempts).toBe(2);
+				expect(shouldRetry).toHaveBeenCalledWith('fatal', 2);
 			});
 
-			it('should clear timeout when cancelled during debounce wait', async () => {
-				let counter = 0;
-				const sourceTask = new FuturableTask((resolve) => {
-					resolve(++counter);
+			it('should reject with the predicate error when shouldRetry throws', async () => {
+				const task = FuturableTask.reject('error').retry(3, {
+					shouldRetry: () => {
+						throw new Error('predicate failed');
+					}
 				});
-				const task = sourceTask.debounce(100);
+				await expect(task.run()).rejects.toThrow('predicate failed');
+			});
 
-				const run1 = task.run();
-				await vi.advanceTimersByTimeAsync(50);
+			it('should reject with the hook error when onRetry throws', async () => {
+				let attempts = 0;
+				const task = new FuturableTask((_, reject) => {
+					attempts++;
+					reject('error');
+				}).retry(3, {
+					delay: 100,
+					onRetry: () => {
+						throw new Error('hook failed');
+					}
+				});
+				await expect(task.run()).rejects.toThrow('hook failed');
+				expect(attempts).toBe(1);
+			});
 
-				// Cancel while still in debounce period
-				task.cancel(); // This triggers utils.onCancel which clears timeoutId
+			it('should stop immediately when cancelled during backoff', async () => {
+				let attempts = 0;
+				const task = new FuturableTask((_, reject) => {
+					attempts++;
+					reject('error');
+				}).retry(3, { delay: 1000 });
 
-				await vi.advanceTimersByTimeAsync(100);
-				// The task should not execute because it was cancelled
-				expect(counter).toBe(0);
+				task.run();
+				await vi.advanceTimersByTimeAsync(500);
+				task.cancel();
+				await vi.advanceTimersByTimeAsync(5000);
+				expect(attempts).toBe(1);
 			});
 		});
 
-		describe('throttle', () => {
-			it('should throttle executions', async () => {
-				let counter = 0;
-				const task = new FuturableTask((resolve) => {
-					resolve(++counter);
-				}).throttle(100);
+		describe('retryHttp', () => {
+			const responses = (...statuses: (number | Error)[]) => {
+				const queue = statuses.map(status => status instanceof Error ? status : new Response(`status ${status}`, { status }));
+				return vi.fn().mockImplementation(() => {
+					const next = queue.shift()!;
+					return next instanceof Error ? Promise.reject(next) : Promise.resolve(next);
+				});
+			};
 
-				const run1 = task.run();
-				await vi.advanceTimersByTimeAsync(10);
+			it('should retry responses with a retryable status', async () => {
+				global.fetch = responses(503, 500, 200);
+				const run = FuturableTask.fetch('https://api.example.com/data').retryHttp(3, { delay: 100 }).run();
+				await vi.advanceTimersByTimeAsync(200);
+				const response = await run;
+				expect(response.status).toBe(200);
+				expect(global.fetch).toHaveBeenCalledTimes(3);
+			});
+
+			it('should deliver the last response when the retries are exhausted', async () => {
+				global.fetch = responses(502, 502);
+				const response = await FuturableTask.fetch('https://api.example.com/data').retryHttp(1).run();
+				expect(response.status).toBe(502);
+				await expect(response.text()).resolves.toBe('status 502');
+			});
+
+			it('should not retry statuses outside statusCodes', async () => {
+				global.fetch = responses(404, 200);
+				const response = await FuturableTask.fetch('https://api.example.com/data').retryHttp(3).run();
+				expect(response.status).toBe(404);
+				expect(global.fetch).toHaveBeenCalledTimes(1);
+			});
+
+			it('should retry network failures unless disabled', async () => {
+				global.fetch = responses(new TypeError('Failed to fetch'), 200);
+				await expect(FuturableTask.fetch('https://api.example.com/data').retryHttp(1).run()).resolves.toMatchObject({ status: 200 });
+
+				global.fetch = responses(new TypeError('Failed to fetch'), 200);
+				await expect(FuturableTask.fetch('https://api.example.com/data').retryHttp(1, { networkErrors: false }).run())
+					.rejects.toThrow('Failed to fetch');
+			});
+
+			it('should retry HttpError rejections with a retryable status', async () => {
+				global.fetch = responses(429, 200);
+				await expect(FuturableTask.fetchText('https://api.example.com/data').retryHttp(1).run()).resolves.toBe('status 200');
+
+				global.fetch = responses(503, 503);
+				await expect(FuturableTask.fetchText('https://api.example.com/data').retryHttp(1).run()).rejects.toBeInstanceOf(HttpError);
+			});
+
+			it('should wait for the Retry-After header in seconds instead of the backoff delay', async () => {
+				global.fetch = vi.fn()
+					.mockResolvedValueOnce(new Response('', { status: 429, headers: { 'Retry-After': '2' } }))
+					.mockResolvedValueOnce(new Response('ok'));
+				const onRetry = vi.fn();
+				const run = FuturableTask.fetch('https://api.example.com/data').retryHttp(1, { delay: 10, onRetry }).run();
+				await vi.advanceTimersByTimeAsync(1999);
+				expect(global.fetch).toHaveBeenCalledTimes(1);
+				await vi.advanceTimersByTimeAsync(1);
+				await expect(run).resolves.toMatchObject({ status: 200 });
+				expect(onRetry).toHaveBeenCalledWith(expect.any(Response), 1, 2000);
+			});
+
+			it('should wait for the Retry-After header as an HTTP date', async () => {
+				const retryAt = new Date(Date.now() + 5000).toUTCString();
+				global.fetch = vi.fn()
+					.mockResolvedValueOnce(new Response('', { status: 503, headers: { 'Retry-After': retryAt } }))
+					.mockResolvedValueOnce(new Response('ok'));
+				const onRetry = vi.fn();
+				const run = FuturableTask.fetch('https://api.example.com/data').retryHttp(1, { onRetry }).run();
+				await vi.advanceTimersByTimeAsync(5000);
+				await expect(run).resolves.toMatchObject({ status: 200 });
+				expect(onRetry.mock.calls[0][2]).toBeGreaterThan(4000);
+				expect(onRetry.mock.calls[0][2]).toBeLessThanOrEqual(5000);
+			});
+
+			it('should give up when Retry-After exceeds maxRetryAfter', async () => {
+				global.fetch = vi.fn().mockResolvedValue(new Response('', { status: 429, headers: { 'Retry-After': '3600' } }));
+				const response = await FuturableTask.fetch('https://api.example.com/data').retryHttp(3, { maxRetryAfter: 60_000 }).run();
+				expect(response.status).toBe(429);
+				expect(global.fetch).toHaveBeenCalledTimes(1);
+			});
+
+			it('should not retry non-idempotent methods unless allowed', async () => {
+				global.fetch = responses(503, 200);
+				const post = await FuturableTask.fetch('https://api.example.com/orders', { method: 'POST' })
+					.retryHttp(3, { method: 'POST' })
+					.run();
+				expect(post.status).toBe(503);
+
+				global.fetch = responses(503, 200);
+				const allowed = await FuturableTask.fetch('https://api.example.com/orders', { method: 'POST' })
+					.retryHttp(3, { method: 'post', retryNonIdempotent: true })
+					.run();
+				expect(allowed.status).toBe(200);
+			});
+
+			it('should read the method from the fetch task', async () => {
+				global.fetch = responses(503, 503, 200);
+				const post = await FuturableTask.fetch('https://api.example.com/orders', { method: 'POST', body: '{}' })
+					.retryHttp(2)
+					.run();
+				expect(post.status).toBe(503);
+				expect(global.fetch).toHaveBeenCalledTimes(1);
+
+				global.fetch = responses(503, 200);
+				const put = await FuturableTask.fetchText('https://api.example.com/orders/1', { method: 'put', body: '{}' })
+					.retryHttp(2)
+					.run();
+				expect(put).toBe('status 200');
+
+				const fetchFn = responses(503, 200);
+				const api = Futurable.createHttpClient({ fetch: fetchFn });
+				await expect(api.post('/orders', { id: 1 }).retryHttp(2).run()).rejects.toMatchObject({ status: 503 });
+				expect(fetchFn).toHaveBeenCalledTimes(1);
+			});
+
+			it('should not retry when the method is unknown unless it is passed', async () => {
+				global.fetch = responses(503, 200);
+				const derived = FuturableTask.fetch('https://api.example.com/data').map(response => response);
+				await expect(derived.retryHttp(2).run()).resolves.toMatchObject({ status: 503 });
+				expect(global.fetch).toHaveBeenCalledTimes(1);
+
+				global.fetch = responses(503, 200);
+				await expect(derived.retryHttp(2, { method: 'GET' }).run()).resolves.toMatchObject({ status: 200 });
+			});
+
+			it('should reject with the hook error when onRetry throws', async () => {
+				global.fetch = responses(503, 200);
+				const run = FuturableTask.fetch('https://api.example.com/data').retryHttp(2, {
+					onRetry: () => {
+						throw new Error('hook failed');
+					}
+				}).run();
+				await expect(run).rejects.toThrow('hook failed');
+				expect(global.fetch).toHaveBeenCalledTimes(1);
+			});
+
+			it('should cancel the body of discarded responses', async () => {
+				const discarded = new Response('large body', { status: 503 });
+				const cancel = vi.spyOn(discarded.body!, 'cancel');
+				global.fetch = vi.fn()
+					.mockResolvedValueOnce(discarded)
+					.mockResolvedValueOnce(new Response('ok'));
+				await FuturableTask.fetch('https://api.example.com/data').retryHttp(1).run();
+				expect(cancel).toHaveBeenCalledTimes(1);
+			});
+
+			it('should stop waiting when the run is cancelled', async () => {
+				global.fetch = responses(503, 200);
+				const onResolve = vi.fn();
+				const run = FuturableTask.fetch('https://api.example.com/data').retryHttp(1, { delay: 1000 }).run();
+				run.then(onResolve);
+				await vi.advanceTimersByTimeAsync(10);
+				run.cancel();
+				await vi.advanceTimersByTimeAsync(2000);
+				expect(global.fetch).toHaveBeenCalledTimes(1);
+				expect(onResolve).not.toHaveBeenCalled();
+			});
+
+			it('should not sleep past the deadline', async () => {
+				global.fetch = vi.fn().mockResolvedValue(new Response('', { status: 503, headers: { 'Retry-After': '10' } }));
+				const response = await FuturableTask.fetch('https://api.example.com/data').retryHttp(3).timeout(5000).run();
+				expect(response.status).toBe(503);
+				expect(global.fetch).toHaveBeenCalledTimes(1);
+			});
+		});
+
+		describe('debounce', () => {
+			it('should debounce executions', async () => {
+				let counter = 0;
+				const sourceTask = new FuturableTask((resolve) => {
+					resolve(++counter);
+				});
+				const task = sourceTask.debounce(100);
+
+				const run1 = task.run();
+				await vi.advanceTimersByTimeAsync(50);
+				const run2 = task.run();
+				await vi.advanceTimersByTimeAsync(50);
+				const run3 = task.run();
+				await vi.advanceTimersByTimeAsync(100);
+
+				expect(await run3).toBe(1);
+			});
+
+			it('should handle debounce on already debounced task', async () => {
+				let counter = 0;
+				const sourceTask = new FuturableTask((resolve) => {
+					resolve(++counter);
+				});
+				const debounced1 = sourceTask.debounce(100);
+				const debounced2 = debounced1.debounce(50);
+
+				const run1 = debounced2.run();
+				await vi.advanceTimersByTimeAsync(50);
+				expect(await run1).toBe(1);
+			});
+
+			it('should clear timeout when cancelled during debounce wait', async () => {
+				let counter = 0;
+				const sourceTask = new FuturableTask((resolve) => {
+					resolve(++counter);
+				});
+				const task = sourceTask.debounce(100);
+
+				const run1 = task.run();
+				await vi.advanceTimersByTimeAsync(50);
+
+				// Cancel while still in debounce period
+				task.cancel(); // This triggers utils.onCancel which clears timeoutId
+
+				await vi.advanceTimersByTimeAsync(100);
+				// The task should not execute because it was cancelled
+				expect(counter).toBe(0);
+			});
+		});
+
+		describe('throttle', () => {
+			it('should throttle executions', async () => {
+				let counter = 0;
+				const task = new FuturableTask((resolve) => {
+					resolve(++counter);
+				}).throttle(100);
+
+				const run1 = task.run();
+				await vi.advanceTimersByTimeAsync(10);
 				expect(await run1).toBe(1);
 
 				const run2 = task.run();
@@ -891,6 +1658,19 @@ describe('FuturableTask', () => {
 				);
 				await expect(task.run()).resolves.toBe('13');
 			});
+
+			it('should infer the result type of long pipelines', async () => {
+				class ParseError extends Error { }
+				const task = new FuturableTask<number, ParseError>(res => res(1)).pipe(
+					t => t.map(x => x + 1),
+					t => t.map(x => x * 2),
+					t => t.map(x => x - 1),
+					t => t.map(x => x.toString()),
+					t => t.map(x => x.length)
+				);
+				expectTypeOf(task).toEqualTypeOf<FuturableTask<number, ParseError>>();
+				await expect(task.run()).resolves.toBe(1);
+			});
 		});
 
 		describe('fetch (instance method)', () => {
@@ -928,6 +1708,33 @@ describe('FuturableTask', () => {
 			});
 		});
 
+		describe('fetchJson, fetchText and fetchBlob (instance methods)', () => {
+			it('should build the request from the value and parse the JSON body', async () => {
+				global.fetch = vi.fn().mockResolvedValue(new Response(JSON.stringify({ id: 42 })));
+				const task = FuturableTask.resolve(42)
+					.fetchJson<{ id: number }>(id => `https://api.example.com/users/${id}`);
+				await expect(task.run()).resolves.toEqual({ id: 42 });
+				expect(global.fetch).toHaveBeenCalledWith(
+					'https://api.example.com/users/42',
+					expect.objectContaining({ signal: expect.any(AbortSignal) })
+				);
+			});
+
+			it('should fetch again on every run', async () => {
+				global.fetch = vi.fn().mockImplementation(() => Promise.resolve(new Response('ok')));
+				const task = FuturableTask.resolve('page').fetchText(page => `https://api.example.com/${page}`);
+				await task.run();
+				await expect(task.run()).resolves.toBe('ok');
+				expect(global.fetch).toHaveBeenCalledTimes(2);
+			});
+
+			it('should reject with an HttpError on non-2xx responses', async () => {
+				global.fetch = vi.fn().mockResolvedValue(new Response('Gone', { status: 410 }));
+				const task = FuturableTask.resolve('file').fetchBlob(file => `https://api.example.com/${file}`);
+				await expect(task.run()).rejects.toBeInstanceOf(HttpError);
+			});
+		});
+
 		describe('Static: of', () => {
 			it('should create task from value', async () => {
 				const task = FuturableTask.of(42);
@@ -1307,6 +2114,20 @@ describe('FuturableTask', () => {
 				expect(limiter.pendingCount).toBe(0);
 			});
 
+			it('should free the slot of a running task when it is cancelled', async () => {
+				const limiter = FuturableTask.createLimiter(1);
+				const running = limiter(new FuturableTask<number>(() => {})).run();
+				const queued = limiter(FuturableTask.resolve(2)).run();
+				expect(limiter.activeCount).toBe(1);
+				expect(limiter.pendingCount).toBe(1);
+
+				running.cancel();
+				expect(limiter.activeCount).toBe(1);
+				expect(limiter.pendingCount).toBe(0);
+				await expect(queued).resolves.toBe(2);
+				expect(limiter.activeCount).toBe(0);
+			});
+
 			it('should limit concurrent executions', async () => {
 				const limiter = FuturableTask.createLimiter(2);
 				let activeCount = 0;
@@ -1431,6 +2252,879 @@ describe('FuturableTask', () => {
 			});
 		});
 
+		describe('Static: createLimiter (priority and weight)', () => {
+			const delayed = <T>(value: T, order: T[]) => new FuturableTask<T>((resolve) => {
+				order.push(value);
+				setTimeout(() => resolve(value), 100);
+			});
+
+			it('should dispatch queued tasks by priority', async () => {
+				const limiter = FuturableTask.createLimiter(1);
+				const order: string[] = [];
+
+				limiter(delayed('first', order)).run();
+				limiter(delayed('low', order), { priority: -1 }).run();
+				limiter(delayed('normal', order)).run();
+				limiter(delayed('high', order), { priority: 10 }).run();
+
+				await vi.advanceTimersByTimeAsync(400);
+				expect(order).toEqual(['first', 'high', 'normal', 'low']);
+			});
+
+			it('should keep submission order among equal priorities', async () => {
+				const limiter = FuturableTask.createLimiter(1);
+				const order: number[] = [];
+
+				limiter(delayed(0, order)).run();
+				[1, 2, 3].forEach(i => limiter(delayed(i, order), { priority: 5 }).run());
+
+				await vi.advanceTimersByTimeAsync(400);
+				expect(order).toEqual([0, 1, 2, 3]);
+			});
+
+			it('should reserve slots according to weight', async () => {
+				const limiter = FuturableTask.createLimiter(5);
+				const order: string[] = [];
+
+				limiter(delayed('export', order), { weight: 3 }).run();
+				limiter(delayed('a', order)).run();
+				limiter(delayed('b', order)).run();
+				limiter(delayed('c', order)).run();
+
+				await vi.advanceTimersByTimeAsync(10);
+				expect(order).toEqual(['export', 'a', 'b']);
+				expect(limiter.activeCount).toBe(3);
+				expect(limiter.pendingCount).toBe(1);
+
+				await vi.advanceTimersByTimeAsync(100);
+				expect(order).toEqual(['export', 'a', 'b', 'c']);
+				expect(limiter.activeCount).toBe(1);
+				expect(limiter.pendingCount).toBe(0);
+			});
+
+			it('should not skip a heavy task at the head of the queue', async () => {
+				const limiter = FuturableTask.createLimiter(2);
+				const order: string[] = [];
+
+				limiter(delayed('light', order)).run();
+				limiter(delayed('heavy', order), { weight: 2 }).run();
+				limiter(delayed('after', order)).run();
+
+				await vi.advanceTimersByTimeAsync(10);
+				expect(order).toEqual(['light']);
+				await vi.advanceTimersByTimeAsync(100);
+				expect(order).toEqual(['light', 'heavy']);
+				await vi.advanceTimersByTimeAsync(100);
+				expect(order).toEqual(['light', 'heavy', 'after']);
+			});
+
+			it('should cap weights larger than the concurrency', async () => {
+				const limiter = FuturableTask.createLimiter(2);
+				const task = limiter(FuturableTask.resolve('done'), { weight: 10 });
+				await expect(task.run()).resolves.toBe('done');
+			});
+		});
+
+		describe('Static: createLimiter (pause, drain and clear)', () => {
+			const delayed = <T>(value: T, ms = 100) => new FuturableTask<T>((resolve) => {
+				setTimeout(() => resolve(value), ms);
+			});
+
+			it('should stop dispatching while paused and continue on resume', async () => {
+				const onPause = vi.fn();
+				const onResume = vi.fn();
+				const limiter = FuturableTask.createLimiter(1, { onPause, onResume });
+				const results: number[] = [];
+
+				limiter(delayed(1)).run().then(v => results.push(v));
+				limiter.pause();
+				limiter.pause();
+				limiter(delayed(2)).run().then(v => results.push(v));
+
+				expect(limiter.isPaused).toBe(true);
+				expect(onPause).toHaveBeenCalledTimes(1);
+
+				await vi.advanceTimersByTimeAsync(500);
+				expect(results).toEqual([1]);
+				expect(limiter.activeCount).toBe(0);
+				expect(limiter.pendingCount).toBe(1);
+
+				limiter.resume();
+				expect(onResume).toHaveBeenCalledTimes(1);
+				expect(limiter.isPaused).toBe(false);
+
+				await vi.advanceTimersByTimeAsync(100);
+				expect(results).toEqual([1, 2]);
+			});
+
+			it('should resolve onIdle when queue and active set are empty', async () => {
+				const limiter = FuturableTask.createLimiter(1);
+				const idle = vi.fn();
+
+				limiter(delayed('a')).run();
+				limiter(delayed('b')).run();
+				limiter.onIdle().then(idle);
+
+				await vi.advanceTimersByTimeAsync(150);
+				expect(idle).not.toHaveBeenCalled();
+
+				await vi.advanceTimersByTimeAsync(50);
+				expect(idle).toHaveBeenCalledTimes(1);
+			});
+
+			it('should resolve onIdle and drain immediately when nothing is queued', async () => {
+				const limiter = FuturableTask.createLimiter(1);
+				await expect(limiter.onIdle()).resolves.toBeUndefined();
+				await expect(limiter.drain()).resolves.toBeUndefined();
+			});
+
+			it('should emit onDrain when the last pending task leaves the queue', async () => {
+				const onDrain = vi.fn();
+				const limiter = FuturableTask.createLimiter(1, { onDrain });
+
+				limiter(delayed(1)).run();
+				expect(onDrain).not.toHaveBeenCalled();
+				limiter(delayed(2)).run();
+				limiter(delayed(3)).run();
+
+				await vi.advanceTimersByTimeAsync(100);
+				expect(onDrain).not.toHaveBeenCalled();
+
+				await vi.advanceTimersByTimeAsync(100);
+				expect(onDrain).toHaveBeenCalledTimes(1);
+			});
+
+			it('should cancel pending tasks on clear', async () => {
+				const onDrain = vi.fn();
+				const limiter = FuturableTask.createLimiter(1, { onDrain });
+				const running = limiter(delayed('running')).run();
+				const pending = limiter(delayed('pending')).rejectOnCancel().run();
+
+				limiter.clear('shutdown');
+
+				expect(limiter.pendingCount).toBe(0);
+				expect(onDrain).toHaveBeenCalledTimes(1);
+				await expect(pending).rejects.toMatchObject({ name: 'CancellationError', reason: 'shutdown' });
+				await vi.advanceTimersByTimeAsync(100);
+				await expect(running).resolves.toBe('running');
+			});
+		});
+
+		describe('Static: createLimiter (runtime concurrency)', () => {
+			const delayed = <T>(value: T, ms = 100) => new FuturableTask<T>((resolve) => {
+				setTimeout(() => resolve(value), ms);
+			});
+
+			it('should dispatch queued tasks immediately when concurrency is raised', async () => {
+				const limiter = FuturableTask.createLimiter(1);
+				[1, 2, 3, 4].forEach(i => limiter(delayed(i)).run());
+
+				expect(limiter.activeCount).toBe(1);
+				limiter.concurrency = 3;
+
+				expect(limiter.concurrency).toBe(3);
+				expect(limiter.activeCount).toBe(3);
+				expect(limiter.pendingCount).toBe(1);
+			});
+
+			it('should let running tasks finish when concurrency is lowered', async () => {
+				const limiter = FuturableTask.createLimiter(3);
+				const results: number[] = [];
+				[1, 2, 3, 4, 5].forEach(i => limiter(delayed(i)).run().then(v => results.push(v)));
+
+				limiter.concurrency = 1;
+				expect(limiter.activeCount).toBe(3);
+
+				await vi.advanceTimersByTimeAsync(100);
+				expect(results).toEqual([1, 2, 3]);
+				expect(limiter.activeCount).toBe(1);
+
+				await vi.advanceTimersByTimeAsync(100);
+				expect(results).toEqual([1, 2, 3, 4]);
+				expect(limiter.activeCount).toBe(1);
+			});
+
+			it('should reject invalid concurrency values', () => {
+				const limiter = FuturableTask.createLimiter(2);
+				expect(() => { limiter.concurrency = 0; }).toThrow(RangeError);
+				expect(() => { limiter.concurrency = NaN; }).toThrow(RangeError);
+				expect(limiter.concurrency).toBe(2);
+			});
+
+			it('should not emit onIdle when changing concurrency of an idle limiter', () => {
+				const onIdle = vi.fn();
+				const limiter = FuturableTask.createLimiter(2, { onIdle });
+				limiter.concurrency = 4;
+				expect(onIdle).not.toHaveBeenCalled();
+			});
+		});
+
+		describe('Static: createKeyedLimiter', () => {
+			const delayed = <T>(value: T, order: T[], ms = 100) => new FuturableTask<T>((resolve) => {
+				order.push(value);
+				setTimeout(() => resolve(value), ms);
+			});
+
+			it('should limit concurrency per key independently', async () => {
+				const limiter = FuturableTask.createKeyedLimiter(1);
+				const started: string[] = [];
+
+				limiter('doc-1', delayed('1a', started)).run();
+				limiter('doc-1', delayed('1b', started)).run();
+				limiter('doc-2', delayed('2a', started)).run();
+
+				await vi.advanceTimersByTimeAsync(10);
+				expect(started).toEqual(['1a', '2a']);
+				expect(limiter.activeCount).toBe(2);
+				expect(limiter.pendingCount).toBe(1);
+				expect(limiter.keyCount).toBe(2);
+
+				await vi.advanceTimersByTimeAsync(100);
+				expect(started).toEqual(['1a', '2a', '1b']);
+				expect(limiter.activeCount).toBe(1);
+				expect(limiter.keyCount).toBe(1);
+			});
+
+			it('should resolve concurrency per key when given a function', async () => {
+				const limiter = FuturableTask.createKeyedLimiter<string>(key => key === 'big' ? 2 : 1);
+				const started: number[] = [];
+
+				[1, 2, 3].forEach(i => limiter('big', delayed(i, started)).run());
+				[4, 5].forEach(i => limiter('small', delayed(i, started)).run());
+
+				await vi.advanceTimersByTimeAsync(10);
+				expect(started).toEqual([1, 2, 4]);
+			});
+
+			it('should discard idle keys and pass the key to events', async () => {
+				const onActive = vi.fn();
+				const onCompleted = vi.fn();
+				const onIdle = vi.fn();
+				const limiter = FuturableTask.createKeyedLimiter<number>(1, { onActive, onCompleted, onIdle });
+
+				await limiter(42, FuturableTask.resolve('done')).run();
+
+				expect(onActive).toHaveBeenCalledWith(expect.anything(), 42);
+				expect(onCompleted).toHaveBeenCalledWith('done', 42);
+				expect(onIdle).toHaveBeenCalledWith(42);
+				expect(limiter.keyCount).toBe(0);
+			});
+
+			it('should keep serializing tasks created before their key was discarded', async () => {
+				const limiter = FuturableTask.createKeyedLimiter(1);
+				const started: string[] = [];
+				const early = limiter('doc', delayed('early', started));
+
+				await limiter('doc', FuturableTask.resolve('first')).run();
+				expect(limiter.keyCount).toBe(0);
+
+				early.run();
+				limiter('doc', delayed('late', started)).run();
+
+				await vi.advanceTimersByTimeAsync(10);
+				expect(started).toEqual(['early']);
+				await vi.advanceTimersByTimeAsync(100);
+				expect(started).toEqual(['early', 'late']);
+			});
+
+			it('should forward errors and honour per-task options', async () => {
+				const onError = vi.fn();
+				const limiter = FuturableTask.createKeyedLimiter(1, { onError });
+				const started: string[] = [];
+
+				limiter('k', delayed('first', started)).run();
+				limiter('k', delayed('low', started)).run();
+				limiter('k', delayed('high', started), { priority: 1 }).run();
+				const failing = limiter('other', FuturableTask.reject(new Error('boom'))).run();
+
+				await expect(failing).rejects.toThrow('boom');
+				expect(onError).toHaveBeenCalledWith(expect.any(Error), 'other');
+
+				await vi.advanceTimersByTimeAsync(300);
+				expect(started).toEqual(['first', 'high', 'low']);
+			});
+		});
+
+		describe('Static: createRateLimiter', () => {
+			it('should create a rate limiter with correct properties', () => {
+				const rateLimiter = FuturableTask.createRateLimiter({ tokensPerInterval: 5, interval: 1000 });
+				expect(typeof rateLimiter).toBe('function');
+				expect(rateLimiter.availableTokens).toBe(5);
+				expect(rateLimiter.pendingCount).toBe(0);
+			});
+
+			it('should start up to burst tasks at once and queue the rest', async () => {
+				const rateLimiter = FuturableTask.createRateLimiter({ tokensPerInterval: 2, interval: 1000 });
+				const started: number[] = [];
+				[1, 2, 3, 4, 5].forEach(i => rateLimiter(FuturableTask.of(() => started.push(i))).run());
+
+				await vi.advanceTimersByTimeAsync(0);
+				expect(started).toEqual([1, 2]);
+				expect(rateLimiter.availableTokens).toBe(0);
+				expect(rateLimiter.pendingCount).toBe(3);
+
+				await vi.advanceTimersByTimeAsync(500);
+				expect(started).toEqual([1, 2, 3]);
+
+				await vi.advanceTimersByTimeAsync(500);
+				expect(started).toEqual([1, 2, 3, 4]);
+
+				await vi.advanceTimersByTimeAsync(500);
+				expect(started).toEqual([1, 2, 3, 4, 5]);
+				expect(rateLimiter.pendingCount).toBe(0);
+			});
+
+			it('should refill tokens up to burst', async () => {
+				const rateLimiter = FuturableTask.createRateLimiter({ tokensPerInterval: 1, interval: 100, burst: 3 });
+				await rateLimiter(FuturableTask.resolve(1)).run();
+				expect(rateLimiter.availableTokens).toBe(2);
+
+				await vi.advanceTimersByTimeAsync(1000);
+				expect(rateLimiter.availableTokens).toBe(3);
+			});
+
+			it('should resolve and reject with the wrapped task result', async () => {
+				const rateLimiter = FuturableTask.createRateLimiter({ tokensPerInterval: 1, interval: 100 });
+				await expect(rateLimiter(FuturableTask.resolve('ok')).run()).resolves.toBe('ok');
+
+				const failing = rateLimiter(FuturableTask.reject(new Error('boom'))).run();
+				const assertion = expect(failing).rejects.toThrow('boom');
+				await vi.advanceTimersByTimeAsync(100);
+				await assertion;
+			});
+
+			it('should remove cancelled tasks from the queue without consuming tokens', async () => {
+				const rateLimiter = FuturableTask.createRateLimiter({ tokensPerInterval: 1, interval: 100 });
+				const started: string[] = [];
+				rateLimiter(FuturableTask.of(() => started.push('a'))).run();
+				const queued = rateLimiter(FuturableTask.of(() => started.push('b'))).run();
+				rateLimiter(FuturableTask.of(() => started.push('c'))).run();
+
+				expect(rateLimiter.pendingCount).toBe(2);
+				queued.cancel();
+				expect(rateLimiter.pendingCount).toBe(1);
+
+				await vi.advanceTimersByTimeAsync(100);
+				expect(started).toEqual(['a', 'c']);
+			});
+
+			it('should reject invalid options', () => {
+				expect(() => FuturableTask.createRateLimiter({ tokensPerInterval: 0, interval: 1000 })).toThrow(RangeError);
+				expect(() => FuturableTask.createRateLimiter({ tokensPerInterval: 1, interval: -1 })).toThrow(RangeError);
+			});
+		});
+
+		describe('Static: createCircuitBreaker', () => {
+			it('should create a closed circuit breaker', () => {
+				const breaker = FuturableTask.createCircuitBreaker();
+				expect(typeof breaker).toBe('function');
+				expect(breaker.state).toBe('closed');
+				expect(breaker.failureCount).toBe(0);
+			});
+
+			it('should pass results and errors through while closed', async () => {
+				const breaker = FuturableTask.createCircuitBreaker({ failureThreshold: 3 });
+				await expect(breaker(FuturableTask.resolve(42)).run()).resolves.toBe(42);
+				await expect(breaker(FuturableTask.reject('error')).run()).rejects.toBe('error');
+				expect(breaker.state).toBe('closed');
+				expect(breaker.failureCount).toBe(1);
+			});
+
+			it('should open after reaching the failure threshold and fail fast', async () => {
+				const events = { onOpen: vi.fn(), onStateChange: vi.fn(), onReject: vi.fn() };
+				const breaker = FuturableTask.createCircuitBreaker({ failureThreshold: 2, resetTimeout: 1000 }, events);
+				const failing = breaker(FuturableTask.reject('error'));
+
+				await expect(failing.run()).rejects.toBe('error');
+				await expect(failing.run()).rejects.toBe('error');
+				expect(breaker.state).toBe('open');
+				expect(events.onOpen).toHaveBeenCalledTimes(1);
+				expect(events.onStateChange).toHaveBeenCalledWith('open', 'closed');
+
+				const executor = vi.fn((resolve: any) => resolve(1));
+				const error = await breaker(new FuturableTask<number>(executor)).run().catch(err => err);
+				expect(error).toBeInstanceOf(CircuitOpenError);
+				expect(error.retryAfter).toBe(1000);
+				expect(executor).not.toHaveBeenCalled();
+				expect(events.onReject).toHaveBeenCalledWith(error);
+			});
+
+			it('should only count failures within the rolling window', async () => {
+				const breaker = FuturableTask.createCircuitBreaker({ failureThreshold: 2, rollingWindow: 1000 });
+				const failing = breaker(FuturableTask.reject('error'));
+
+				await expect(failing.run()).rejects.toBe('error');
+				await vi.advanceTimersByTimeAsync(1000);
+				expect(breaker.failureCount).toBe(0);
+				await expect(failing.run()).rejects.toBe('error');
+				expect(breaker.state).toBe('closed');
+			});
+
+			it('should close again after a successful trial in half-open state', async () => {
+				const events = { onHalfOpen: vi.fn(), onClose: vi.fn() };
+				const breaker = FuturableTask.createCircuitBreaker({ failureThreshold: 1, resetTimeout: 1000 }, events);
+
+				await expect(breaker(FuturableTask.reject('error')).run()).rejects.toBe('error');
+				expect(breaker.state).toBe('open');
+
+				await vi.advanceTimersByTimeAsync(1000);
+				expect(breaker.state).toBe('half-open');
+				expect(events.onHalfOpen).toHaveBeenCalledTimes(1);
+
+				await expect(breaker(FuturableTask.resolve('ok')).run()).resolves.toBe('ok');
+				expect(breaker.state).toBe('closed');
+				expect(events.onClose).toHaveBeenCalledTimes(1);
+			});
+
+			it('should move to half-open when the reset timeout elapses', async () => {
+				const events = { onHalfOpen: vi.fn(), onStateChange: vi.fn() };
+				const breaker = FuturableTask.createCircuitBreaker({ failureThreshold: 1, resetTimeout: 1000 }, events);
+				await expect(breaker(FuturableTask.reject('error')).run()).rejects.toBe('error');
+
+				await vi.advanceTimersByTimeAsync(999);
+				expect(events.onHalfOpen).not.toHaveBeenCalled();
+				await vi.advanceTimersByTimeAsync(1);
+				expect(events.onHalfOpen).toHaveBeenCalledTimes(1);
+				expect(events.onStateChange.mock.calls).toEqual([['open', 'closed'], ['half-open', 'open']]);
+			});
+
+			it('should clear the reset timer when the signal aborts', async () => {
+				const controller = new AbortController();
+				const events = { onHalfOpen: vi.fn() };
+				const breaker = FuturableTask.createCircuitBreaker({ failureThreshold: 1, resetTimeout: 1000 }, events, controller.signal);
+				await expect(breaker(FuturableTask.reject('error')).run()).rejects.toBe('error');
+
+				controller.abort();
+				await vi.advanceTimersByTimeAsync(1000);
+				expect(events.onHalfOpen).not.toHaveBeenCalled();
+				expect(vi.getTimerCount()).toBe(0);
+				expect(breaker.state).toBe('half-open');
+				expect(events.onHalfOpen).toHaveBeenCalledTimes(1);
+			});
+
+			it('should reopen when a trial fails', async () => {
+				const breaker = FuturableTask.createCircuitBreaker({ failureThreshold: 1, resetTimeout: 1000 });
+				await expect(breaker(FuturableTask.reject('error')).run()).rejects.toBe('error');
+				await vi.advanceTimersByTimeAsync(1000);
+
+				await expect(breaker(FuturableTask.reject('still failing')).run()).rejects.toBe('still failing');
+				expect(breaker.state).toBe('open');
+			});
+
+			it('should limit concurrent trials while half-open', async () => {
+				const breaker = FuturableTask.createCircuitBreaker({ failureThreshold: 1, resetTimeout: 1000 });
+				await expect(breaker(FuturableTask.reject('error')).run()).rejects.toBe('error');
+				await vi.advanceTimersByTimeAsync(1000);
+
+				const trial = breaker(FuturableTask.delay(100).map(() => 'trial')).run();
+				await expect(breaker(FuturableTask.resolve('other')).run()).rejects.toBeInstanceOf(CircuitOpenError);
+
+				await vi.advanceTimersByTimeAsync(100);
+				await expect(trial).resolves.toBe('trial');
+				expect(breaker.state).toBe('closed');
+			});
+
+			it('should release the trial slot when a trial is cancelled', async () => {
+				const breaker = FuturableTask.createCircuitBreaker({ failureThreshold: 1, resetTimeout: 1000 });
+				await expect(breaker(FuturableTask.reject('error')).run()).rejects.toBe('error');
+				await vi.advanceTimersByTimeAsync(1000);
+
+				const trial = breaker(FuturableTask.delay(100));
+				trial.run();
+				trial.cancel();
+
+				await expect(breaker(FuturableTask.resolve('next')).run()).resolves.toBe('next');
+				expect(breaker.state).toBe('closed');
+			});
+
+			it('should ignore errors rejected by isFailure', async () => {
+				const breaker = FuturableTask.createCircuitBreaker({
+					failureThreshold: 1,
+					isFailure: err => err !== 'not found'
+				});
+				await expect(breaker(FuturableTask.reject('not found')).run()).rejects.toBe('not found');
+				expect(breaker.state).toBe('closed');
+			});
+
+			it('should reset to closed state', async () => {
+				const breaker = FuturableTask.createCircuitBreaker({ failureThreshold: 1 });
+				await expect(breaker(FuturableTask.reject('error')).run()).rejects.toBe('error');
+				expect(breaker.state).toBe('open');
+				breaker.reset();
+				expect(breaker.state).toBe('closed');
+				expect(breaker.failureCount).toBe(0);
+			});
+		});
+
+		describe('Static: memoizeFn', () => {
+			it('should share executions per key', async () => {
+				const factory = vi.fn((id: number) => FuturableTask.of(() => `user-${id}`));
+				const getUser = FuturableTask.memoizeFn(factory);
+
+				const results = await Promise.all([getUser(1).run(), getUser(1).run(), getUser(2).run()]);
+				await expect(getUser(1).run()).resolves.toBe('user-1');
+
+				expect(results).toEqual(['user-1', 'user-1', 'user-2']);
+				expect(factory).toHaveBeenCalledTimes(2);
+				expect(getUser.size).toBe(2);
+			});
+
+			it('should deduplicate concurrent runs of the same key', async () => {
+				const executor = vi.fn();
+				const getUser = FuturableTask.memoizeFn((id: number) => new FuturableTask<number>((resolve) => {
+					executor();
+					setTimeout(() => resolve(id), 100);
+				}));
+
+				const first = getUser(1).run();
+				const second = getUser(1).run();
+				await vi.advanceTimersByTimeAsync(100);
+
+				await expect(first).resolves.toBe(1);
+				await expect(second).resolves.toBe(1);
+				expect(executor).toHaveBeenCalledTimes(1);
+			});
+
+			it('should evict the least recently used entry beyond maxSize', async () => {
+				const factory = vi.fn((id: number) => FuturableTask.resolve(id));
+				const getUser = FuturableTask.memoizeFn(factory, { maxSize: 2 });
+
+				await getUser(1).run();
+				await getUser(2).run();
+				await getUser(1).run();
+				await getUser(3).run();
+				expect(getUser.size).toBe(2);
+
+				await getUser(1).run();
+				expect(factory).toHaveBeenCalledTimes(3);
+				await getUser(2).run();
+				expect(factory).toHaveBeenCalledTimes(4);
+			});
+
+			it('should use a custom key function', async () => {
+				const factory = vi.fn((query: { text: string, page: number }) => FuturableTask.resolve(query.text));
+				const search = FuturableTask.memoizeFn(factory, { key: query => query.text });
+
+				await search({ text: 'a', page: 1 }).run();
+				await search({ text: 'a', page: 2 }).run();
+				expect(factory).toHaveBeenCalledTimes(1);
+			});
+
+			it('should evict failed entries unless catchErrors is set', async () => {
+				let calls = 0;
+				const factory = () => FuturableTask.of(() => {
+					calls++;
+					throw new Error(`failure ${calls}`);
+				});
+
+				const evicting = FuturableTask.memoizeFn(factory);
+				await expect(evicting().run()).rejects.toThrow('failure 1');
+				expect(evicting.size).toBe(0);
+				await expect(evicting().run()).rejects.toThrow('failure 2');
+
+				const caching = FuturableTask.memoizeFn(factory, { catchErrors: true });
+				await expect(caching().run()).rejects.toThrow('failure 3');
+				await expect(caching().run()).rejects.toThrow('failure 3');
+				expect(caching.size).toBe(1);
+			});
+
+			it('should expire entries after ttl', async () => {
+				let calls = 0;
+				const getValue = FuturableTask.memoizeFn(() => FuturableTask.of(() => ++calls), { ttl: 1000 });
+
+				await expect(getValue().run()).resolves.toBe(1);
+				await vi.advanceTimersByTimeAsync(500);
+				await expect(getValue().run()).resolves.toBe(1);
+				await vi.advanceTimersByTimeAsync(500);
+				await expect(getValue().run()).resolves.toBe(2);
+			});
+
+			it('should not count expired entries in size', async () => {
+				const getUser = FuturableTask.memoizeFn((id: number) => FuturableTask.resolve(id), { ttl: 1000 });
+
+				await getUser(1).run();
+				await vi.advanceTimersByTimeAsync(500);
+				await getUser(2).run();
+				expect(getUser.size).toBe(2);
+
+				await vi.advanceTimersByTimeAsync(500);
+				expect(getUser.size).toBe(1);
+				await vi.advanceTimersByTimeAsync(500);
+				expect(getUser.size).toBe(0);
+			});
+
+			it('should invalidate single entries and clear the cache', async () => {
+				const factory = vi.fn((id: number) => FuturableTask.resolve(id));
+				const getUser = FuturableTask.memoizeFn(factory);
+
+				await getUser(1).run();
+				await getUser(2).run();
+				expect(getUser.invalidate(1)).toBe(true);
+				expect(getUser.invalidate(1)).toBe(false);
+				expect(getUser.size).toBe(1);
+
+				getUser.clear();
+				expect(getUser.size).toBe(0);
+				await getUser(2).run();
+				expect(factory).toHaveBeenCalledTimes(3);
+			});
+		});
+
+		describe('Static: cache stores', () => {
+			it('should store, expire and delete entries in memory', async () => {
+				const store = FuturableTask.createMemoryStore();
+				store.set('a', '1');
+				store.set('b', '2', 100);
+
+				expect(store.get('a')).toBe('1');
+				expect(store.get('b')).toBe('2');
+
+				await vi.advanceTimersByTimeAsync(100);
+				expect(store.get('b')).toBeUndefined();
+
+				store.delete('a');
+				expect(store.get('a')).toBeUndefined();
+			});
+
+			it('should store entries in a Web Storage with a prefix', async () => {
+				const data = new Map<string, string>();
+				const storage = {
+					getItem: (key: string) => data.get(key) ?? null,
+					setItem: (key: string, value: string) => data.set(key, value),
+					removeItem: (key: string) => data.delete(key)
+				} as unknown as Storage;
+				const store = FuturableTask.createLocalStorageStore('app:', storage);
+
+				store.set('token', 'abc', 100);
+				expect([...data.keys()]).toEqual(['app:token']);
+				expect(store.get('token')).toBe('abc');
+
+				await vi.advanceTimersByTimeAsync(100);
+				expect(store.get('token')).toBeUndefined();
+				expect(data.size).toBe(0);
+
+				data.set('app:foreign', 'not json');
+				expect(store.get('foreign')).toBeUndefined();
+
+				store.set('token', 'def');
+				store.delete('token');
+				expect(store.get('token')).toBeUndefined();
+			});
+
+			describe('file store', () => {
+				let dir: string;
+
+				beforeEach(async () => {
+					dir = await mkdtemp(join(tmpdir(), 'futurable-'));
+				});
+
+				afterEach(async () => {
+					await rm(dir, { recursive: true, force: true });
+				});
+
+				it('should persist entries across store instances', async () => {
+					const path = join(dir, 'cache.json');
+					const store = FuturableTask.createFileStore(path, { readFile, writeFile });
+
+					await expect(store.get('missing')).resolves.toBeUndefined();
+					await store.set('a', '1');
+					await store.set('b', '2');
+					await store.delete('b');
+
+					const reopened = FuturableTask.createFileStore(path, { readFile, writeFile });
+					await expect(reopened.get('a')).resolves.toBe('1');
+					await expect(reopened.get('b')).resolves.toBeUndefined();
+					expectTypeOf<typeof import('node:fs/promises')>().toExtend<CacheFileSystem>();
+				});
+
+				it('should not restore an entry whose deletion is still pending after invalidate', async () => {
+					const path = join(dir, 'cache.json');
+					const fileStore = FuturableTask.createFileStore(path, { readFile, writeFile });
+					// Like a remote store, the deletion takes a round trip before reaching the file
+					const store = {
+						...fileStore,
+						delete: async (key: string) => {
+							await readFile(path, 'utf8');
+							await fileStore.delete(key);
+						}
+					};
+					let counter = 0;
+					const task = FuturableTask.of(() => ++counter).memoize({ persist: { store, key: 'counter' } });
+
+					await expect(task.run()).resolves.toBe(1);
+					await vi.waitFor(async () => expect(JSON.parse(await store.get('counter') ?? '{}')).toMatchObject({ value: '1' }));
+					task.invalidate();
+					await expect(task.run()).resolves.toBe(2);
+				});
+
+				it('should expire and prune entries', async () => {
+					const path = join(dir, 'cache.json');
+					const store = FuturableTask.createFileStore(path, { readFile, writeFile });
+
+					await store.set('short', 'x', 100);
+					await vi.advanceTimersByTimeAsync(100);
+					await expect(store.get('short')).resolves.toBeUndefined();
+
+					await store.set('other', 'y');
+					expect(JSON.parse(await readFile(path, 'utf8'))).toEqual({ other: { value: 'y' } });
+				});
+			});
+		});
+
+		describe('Static: gen', () => {
+			it('should be lazy and run the generator on every run', async () => {
+				const body = vi.fn();
+				const task = FuturableTask.gen(function* () {
+					body();
+					const value: number = yield FuturableTask.resolve(21).run();
+					return value * 2;
+				});
+
+				expect(body).not.toHaveBeenCalled();
+				await expect(task.run()).resolves.toBe(42);
+				await expect(task.run()).resolves.toBe(42);
+				expect(body).toHaveBeenCalledTimes(2);
+			});
+
+			it('should stop the generator when the task is cancelled', async () => {
+				const afterSleep = vi.fn();
+				const cleanup = vi.fn();
+				const task = FuturableTask.gen(function* ({ sleep }) {
+					try {
+						yield sleep(1000);
+						afterSleep();
+					} finally {
+						cleanup();
+					}
+				});
+
+				task.run();
+				await vi.advanceTimersByTimeAsync(100);
+				task.cancel();
+				await vi.advanceTimersByTimeAsync(1000);
+
+				expect(cleanup).toHaveBeenCalledTimes(1);
+				expect(afterSleep).not.toHaveBeenCalled();
+			});
+
+			it('should compose with retry', async () => {
+				let attempts = 0;
+				const task = FuturableTask.gen(function* () {
+					attempts++;
+					yield 1;
+					if (attempts < 3) {
+						throw new Error('flaky');
+					}
+					return attempts;
+				}).retry(3);
+
+				await expect(task.run()).resolves.toBe(3);
+			});
+		});
+
+		describe('Static: poll', () => {
+			it('should be lazy', async () => {
+				const executor = vi.fn((res: (value: number) => void) => res(1));
+				FuturableTask.poll(new FuturableTask(executor), { interval: 100 });
+				await vi.advanceTimersByTimeAsync(500);
+				expect(executor).not.toHaveBeenCalled();
+			});
+
+			it('should run the task on every tick and resolve when until is satisfied', async () => {
+				let count = 0;
+				const executor = vi.fn((res: (value: number) => void) => res(++count));
+				const task = FuturableTask.poll(new FuturableTask<number>(executor), {
+					interval: 100,
+					until: value => value === 3,
+				});
+
+				const run = task.run();
+				await vi.advanceTimersByTimeAsync(300);
+				await expect(run).resolves.toBe(3);
+				await vi.advanceTimersByTimeAsync(500);
+				expect(executor).toHaveBeenCalledTimes(3);
+			});
+
+			it('should start a fresh polling on every run', async () => {
+				let count = 0;
+				const task = FuturableTask.poll(new FuturableTask<number>(res => res(++count)), {
+					interval: 100,
+					immediate: true,
+					until: value => value % 2 === 0,
+				});
+
+				const first = task.run();
+				await vi.advanceTimersByTimeAsync(100);
+				await expect(first).resolves.toBe(2);
+				const second = task.run();
+				await vi.advanceTimersByTimeAsync(100);
+				await expect(second).resolves.toBe(4);
+			});
+
+			it('should reject after maxErrors consecutive failures, reporting each one', async () => {
+				const onError = vi.fn();
+				const task = FuturableTask.poll(FuturableTask.reject<number, Error>(new Error('down')), {
+					interval: 100,
+					maxErrors: 3,
+					onError,
+				});
+
+				const run = task.run();
+				const result = expect(run).rejects.toThrow('down');
+				await vi.advanceTimersByTimeAsync(300);
+				await result;
+				expect(onError).toHaveBeenCalledTimes(3);
+			});
+
+			it('should stop polling and cancel the running tick when cancelled', async () => {
+				const cancelled = vi.fn();
+				const executor = vi.fn((_res: (value: number) => void, _rej: (reason?: any) => void, utils: FuturableUtils<number>) => {
+					utils.onCancel(cancelled);
+				});
+				const task = FuturableTask.poll(new FuturableTask<number>(executor), {
+					interval: 100,
+					mode: 'fixed-delay',
+				});
+
+				const run = task.run();
+				await vi.advanceTimersByTimeAsync(100);
+				expect(executor).toHaveBeenCalledTimes(1);
+				run.cancel();
+				expect(cancelled).toHaveBeenCalledTimes(1);
+				await vi.advanceTimersByTimeAsync(500);
+				expect(executor).toHaveBeenCalledTimes(1);
+			});
+
+			it('should run every tick through a limiter', async () => {
+				const limiter = FuturableTask.createLimiter(1);
+				const active: number[] = [];
+				const slow = (id: number) => new FuturableTask<number>((res, _, utils) => {
+					active.push(limiter.activeCount);
+					utils.sleep(150).then(() => res(id));
+				});
+				const options = { interval: 100, immediate: true, mode: 'fixed-delay' as const, until: () => true };
+				const first = FuturableTask.poll(limiter(slow(1)), options);
+				const second = FuturableTask.poll(limiter(slow(2)), options);
+
+				const runs = FuturableTask.all([first, second]).run();
+				await vi.advanceTimersByTimeAsync(300);
+				await expect(runs).resolves.toEqual([1, 2]);
+				expect(active).toEqual([1, 1]);
+			});
+
+			it('should compose with timeout', async () => {
+				const task = FuturableTask.poll(FuturableTask.resolve('pending'), {
+					interval: 100,
+					until: status => status === 'done',
+				}).timeout(250);
+
+				const run = task.run();
+				const result = expect(run).rejects.toBeInstanceOf(TimeoutError);
+				await vi.advanceTimersByTimeAsync(250);
+				await result;
+			});
+		});
+
 		describe('Static: compose', () => {
 			it('should compose operators', async () => {
 				const double = (t: FuturableTask<number>) => t.map(x => x * 2);
@@ -1705,6 +3399,282 @@ describe('FuturableTask', () => {
 			});
 		});
 
+		describe('Static: fetchJson, fetchText and fetchBlob', () => {
+			const isUser = (data: unknown): data is { id: number } => typeof data === 'object' && data !== null && 'id' in data;
+
+			it('should be lazy and resolve with the parsed JSON body', async () => {
+				global.fetch = vi.fn().mockResolvedValue(new Response(JSON.stringify({ id: 1 })));
+				const task = FuturableTask.fetchJson('https://api.example.com/me', { method: 'GET' }, isUser);
+				expect(global.fetch).not.toHaveBeenCalled();
+				const user = await task.run();
+				expect(user.id).toBe(1);
+				expectTypeOf(user).toEqualTypeOf<{ id: number }>();
+			});
+
+			it('should reject with a TypeError when the validator rejects the body', async () => {
+				global.fetch = vi.fn().mockResolvedValue(new Response(JSON.stringify(null)));
+				await expect(FuturableTask.fetchJson('https://api.example.com/me', undefined, isUser).run()).rejects.toThrow(TypeError);
+			});
+
+			it('should reject with an HttpError that can be handled with catchError', async () => {
+				global.fetch = vi.fn().mockResolvedValue(new Response(JSON.stringify({ error: 'expired' }), {
+					status: 401,
+					headers: { 'Content-Type': 'application/json' }
+				}));
+				const task = FuturableTask.fetchJson<{ id: number }>('https://api.example.com/me')
+					.catchError(err => err instanceof HttpError && err.status === 401
+						? FuturableTask.resolve(err.body)
+						: FuturableTask.reject(err));
+				await expect(task.run()).resolves.toEqual({ error: 'expired' });
+			});
+
+			it('should retry failed responses', async () => {
+				global.fetch = vi.fn()
+					.mockResolvedValueOnce(new Response('', { status: 503 }))
+					.mockResolvedValueOnce(new Response('ready'));
+				await expect(FuturableTask.fetchText('https://api.example.com/status').retry(1).run()).resolves.toBe('ready');
+				expect(global.fetch).toHaveBeenCalledTimes(2);
+			});
+
+			it('should resolve with the body Blob', async () => {
+				global.fetch = vi.fn().mockResolvedValue(new Response('binary'));
+				await expect(FuturableTask.fetchBlob('https://api.example.com/logo.png').run()).resolves.toBeInstanceOf(Blob);
+			});
+
+			it('should abort the request when the run is cancelled', async () => {
+				global.fetch = vi.fn().mockReturnValue(new Promise(() => { }));
+				const run = FuturableTask.fetchJson('https://api.example.com/me').run();
+				run.cancel();
+				const [, init] = vi.mocked(global.fetch).mock.calls[0];
+				expect(init?.signal?.aborted).toBe(true);
+			});
+		});
+
+		describe('Static: fetchWithProgress', () => {
+			it('should be lazy and report the progress of every run', async () => {
+				global.fetch = vi.fn().mockImplementation(() => Promise.resolve(new Response('data', { headers: { 'Content-Length': '4' } })));
+				const onDownloadProgress = vi.fn();
+				const task = FuturableTask.fetchWithProgress('https://api.example.com/file', { onDownloadProgress });
+				expect(global.fetch).not.toHaveBeenCalled();
+				await expect(task.run().then(blob => blob.text())).resolves.toBe('data');
+				await task.run();
+				expect(onDownloadProgress).toHaveBeenCalledTimes(2);
+				expect(onDownloadProgress).toHaveBeenCalledWith({ loaded: 4, total: 4 });
+			});
+		});
+
+		describe('Static: fetchEvents and fetchLines', () => {
+			const encoder = new TextEncoder();
+			const bodyCancel = vi.fn();
+			const streamed = (chunks: string[], { open = false, fail, ...init }: ResponseInit & { open?: boolean, fail?: Error } = {}) => new Response(new ReadableStream<Uint8Array>({
+				start: controller => {
+					chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+					!open && !fail && controller.close();
+				},
+				pull: controller => {
+					fail && controller.error(fail);
+				},
+				cancel: bodyCancel
+			}), { headers: { 'Content-Type': 'text/event-stream' }, ...init });
+			const requestHeaders = (call: number) => new Headers(vi.mocked(global.fetch).mock.calls[call][1]?.headers);
+
+			beforeEach(() => {
+				bodyCancel.mockClear();
+			});
+
+			it('should return a lazy stream of parsed events', async () => {
+				global.fetch = vi.fn().mockResolvedValue(streamed([
+					': comment\n',
+					'event: greeting\ndata: hello\ndata: world\nid: 1\r',
+					'\n\r\ndata:no space\n\ndata\n\n'
+				], { open: true }));
+				const stream = FuturableTask.fetchEvents('https://api.example.com/events');
+				expect(stream).toBeInstanceOf(FuturableStream);
+				expect(global.fetch).not.toHaveBeenCalled();
+
+				const events = await stream.take(3).toArray().run();
+				expect(events).toEqual([
+					{ type: 'greeting', data: 'hello\nworld', lastEventId: '1' },
+					{ type: 'message', data: 'no space', lastEventId: '1' },
+					{ type: 'message', data: '', lastEventId: '1' }
+				]);
+				expect(requestHeaders(0).get('accept')).toBe('text/event-stream');
+				expect(requestHeaders(0).has('last-event-id')).toBe(false);
+			});
+
+			it('should reconnect with Last-Event-ID and the retry delay sent by the server', async () => {
+				global.fetch = vi.fn()
+					.mockResolvedValueOnce(streamed(['retry: 500\nid: 7\ndata: first\n\ndata: incomplete']))
+					.mockResolvedValueOnce(streamed(['data: second\n\n'], { open: true }));
+				const onReconnect = vi.fn();
+
+				const events = FuturableTask.fetchEvents('https://api.example.com/events', { onReconnect }).take(2).toArray().run();
+				await vi.advanceTimersByTimeAsync(499);
+				expect(global.fetch).toHaveBeenCalledTimes(1);
+				await vi.advanceTimersByTimeAsync(1);
+				await expect(events).resolves.toEqual([
+					{ type: 'message', data: 'first', lastEventId: '7' },
+					{ type: 'message', data: 'second', lastEventId: '7' }
+				]);
+				expect(onReconnect).toHaveBeenCalledWith(1, 500, undefined);
+				expect(requestHeaders(1).get('last-event-id')).toBe('7');
+			});
+
+			it('should send the initial lastEventId', async () => {
+				global.fetch = vi.fn().mockResolvedValue(streamed(['data: resumed\n\n'], { open: true }));
+				await FuturableTask.fetchEvents('https://api.example.com/events', { lastEventId: '41', headers: { Accept: 'application/json' } }).take(1).toArray().run();
+				expect(requestHeaders(0).get('last-event-id')).toBe('41');
+				expect(requestHeaders(0).get('accept')).toBe('application/json');
+			});
+
+			it('should reconnect after network failures and retryable statuses with backoff', async () => {
+				global.fetch = vi.fn()
+					.mockRejectedValueOnce(new TypeError('Failed to fetch'))
+					.mockResolvedValueOnce(new Response('', { status: 503 }))
+					.mockResolvedValueOnce(streamed(['data: back\n\n'], { open: true }));
+				const onReconnect = vi.fn();
+
+				const events = FuturableTask.fetchEvents('https://api.example.com/events', { onReconnect }).take(1).toArray().run();
+				await vi.advanceTimersByTimeAsync(3000);
+				await expect(events).resolves.toEqual([{ type: 'message', data: 'back', lastEventId: '' }]);
+				expect(onReconnect.mock.calls.map(([attempt, delay]) => [attempt, delay])).toEqual([[1, 1000], [2, 2000]]);
+				expect(onReconnect.mock.calls[1][2]).toBeInstanceOf(HttpError);
+			});
+
+			it('should fail on non-retryable statuses', async () => {
+				global.fetch = vi.fn().mockResolvedValue(new Response('', { status: 404 }));
+				await expect(FuturableTask.fetchEvents('https://api.example.com/events').toArray().run()).rejects.toMatchObject({ status: 404 });
+				expect(global.fetch).toHaveBeenCalledTimes(1);
+			});
+
+			it('should end the stream without reconnecting on a 204 response', async () => {
+				global.fetch = vi.fn().mockResolvedValue(new Response(null, { status: 204 }));
+				const onReconnect = vi.fn();
+				const events = FuturableTask.fetchEvents('https://api.example.com/events', { onReconnect }).toArray().run();
+				await vi.advanceTimersByTimeAsync(5000);
+				await expect(events).resolves.toEqual([]);
+				expect(onReconnect).not.toHaveBeenCalled();
+				expect(global.fetch).toHaveBeenCalledTimes(1);
+			});
+
+			it('should fail without reconnecting when the response is not an event stream', async () => {
+				global.fetch = vi.fn().mockResolvedValue(streamed(['<html></html>'], { headers: { 'Content-Type': 'text/html; charset=utf-8' } }));
+				await expect(FuturableTask.fetchEvents('https://api.example.com/events').toArray().run())
+					.rejects.toThrow('Expected a text/event-stream response from https://api.example.com/events, got "text/html; charset=utf-8"');
+				expect(bodyCancel).toHaveBeenCalled();
+
+				global.fetch = vi.fn().mockResolvedValue(Response.json({ data: 'not an event' }));
+				await expect(FuturableTask.fetchEvents('https://api.example.com/events').toArray().run()).rejects.toThrow('application/json');
+				await vi.advanceTimersByTimeAsync(5000);
+				expect(global.fetch).toHaveBeenCalledTimes(1);
+
+				global.fetch = vi.fn().mockResolvedValue(streamed(['data: ok\n\n'], { headers: { 'Content-Type': 'Text/Event-Stream; charset=utf-8' } }));
+				await expect(FuturableTask.fetchEvents('https://api.example.com/events').take(1).toArray().run()).resolves.toHaveLength(1);
+			});
+
+			it('should close the stream when either the signal or the request signal aborts', async () => {
+				const streamController = new AbortController();
+				const requestController = new AbortController();
+				global.fetch = vi.fn().mockResolvedValue(streamed(['data: a\n\n'], { open: true }));
+				const stream = FuturableTask.fetchEvents('https://api.example.com/events', { signal: requestController.signal }, streamController.signal);
+				const events: ServerSentEvent[] = [];
+				const loop = (async () => {
+					for await (const event of stream) {
+						events.push(event);
+					}
+				})();
+				await vi.advanceTimersByTimeAsync(0);
+				requestController.abort();
+				await loop;
+				expect(events).toEqual([{ type: 'message', data: 'a', lastEventId: '' }]);
+				expect(stream.signal.aborted).toBe(true);
+				expect(bodyCancel).toHaveBeenCalled();
+
+				const other = FuturableTask.fetchEvents('https://api.example.com/events', { signal: new AbortController().signal }, streamController.signal);
+				streamController.abort();
+				expect(other.signal.aborted).toBe(true);
+			});
+
+			it('should fail with the last error when the retries are exhausted', async () => {
+				global.fetch = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+				const events = FuturableTask.fetchEvents('https://api.example.com/events', { retries: 2, delay: 10, backoff: 'fixed' }).toArray().run();
+				const result = expect(events).rejects.toThrow('Failed to fetch');
+				await vi.advanceTimersByTimeAsync(20);
+				await result;
+				expect(global.fetch).toHaveBeenCalledTimes(3);
+			});
+
+			it('should end the stream with the error thrown by onReconnect', async () => {
+				global.fetch = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+				const onReconnect = vi.fn(() => {
+					throw new Error('hook failed');
+				});
+				const events = FuturableTask.fetchEvents('https://api.example.com/events', { onReconnect }).toArray().run();
+				await expect(events).rejects.toThrow('hook failed');
+				await vi.advanceTimersByTimeAsync(5000);
+				expect(onReconnect).toHaveBeenCalledTimes(1);
+				expect(global.fetch).toHaveBeenCalledTimes(1);
+			});
+
+			it('should close the connection when the consumer stops iterating', async () => {
+				global.fetch = vi.fn().mockResolvedValue(streamed(['data: only\n\n'], { open: true }));
+				for await (const event of FuturableTask.fetchEvents('https://api.example.com/events')) {
+					expect(event.data).toBe('only');
+					break;
+				}
+				await vi.advanceTimersByTimeAsync(0);
+				expect(vi.mocked(global.fetch).mock.calls[0][1]?.signal?.aborted).toBe(true);
+				expect(bodyCancel).toHaveBeenCalled();
+			});
+
+			it('should end the iteration when the stream is cancelled', async () => {
+				global.fetch = vi.fn().mockResolvedValue(streamed(['data: a\n\n'], { open: true }));
+				const stream = FuturableTask.fetchEvents('https://api.example.com/events');
+				const events: ServerSentEvent[] = [];
+				const loop = (async () => {
+					for await (const event of stream) {
+						events.push(event);
+					}
+				})();
+				await vi.advanceTimersByTimeAsync(0);
+				stream.cancel();
+				await loop;
+				expect(events).toEqual([{ type: 'message', data: 'a', lastEventId: '' }]);
+				expect(bodyCancel).toHaveBeenCalled();
+			});
+
+			it('should yield the non-empty lines of the body and end without reconnecting', async () => {
+				global.fetch = vi.fn().mockResolvedValue(streamed(['{"id":1}\r\n\n{"id"', ':2}\n{"id":3}']));
+				const items = await FuturableTask.fetchLines('https://api.example.com/items.ndjson')
+					.map(line => JSON.parse(line))
+					.toArray()
+					.run();
+				expect(items).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+				expect(global.fetch).toHaveBeenCalledTimes(1);
+			});
+
+			it('should fail when the connection drops, unless retries are set', async () => {
+				global.fetch = vi.fn().mockImplementation(() => Promise.resolve(streamed(['a\n'], { fail: new TypeError('terminated') })));
+				await expect(FuturableTask.fetchLines('https://api.example.com/log').toArray().run()).rejects.toThrow('terminated');
+
+				vi.mocked(global.fetch)
+					.mockClear()
+					.mockImplementationOnce(() => Promise.resolve(streamed(['a\n'], { fail: new TypeError('terminated') })))
+					.mockImplementationOnce(() => Promise.resolve(streamed(['a\nb\n'])));
+				const lines = FuturableTask.fetchLines('https://api.example.com/log', { retries: 1 }).toArray().run();
+				await vi.advanceTimersByTimeAsync(1000);
+				await expect(lines).resolves.toEqual(['a', 'a', 'b']);
+				expect(global.fetch).toHaveBeenCalledTimes(2);
+			});
+
+			it('should close the connection when the consumer takes enough lines', async () => {
+				global.fetch = vi.fn().mockResolvedValue(streamed(['a\nb\n'], { open: true }));
+				await expect(FuturableTask.fetchLines('https://api.example.com/log').take(1).toArray().run()).resolves.toEqual(['a']);
+				await vi.advanceTimersByTimeAsync(0);
+				expect(bodyCancel).toHaveBeenCalled();
+			});
+		});
+
 		describe('Edge cases', () => {
 			it('should handle cancellation during execution', async () => {
 				let executed = false;
@@ -1,4 +1,5 @@
-import { Futurable, FuturableExecutor, FuturableReject, FuturableResolve, FuturableUtils } from "./Futurable";
+import { FuturableStream } from "./FuturableStream";
+import { CancellationError, Futurable, FuturableExecutor, FuturableHttpClient, FuturableHttpClientOptions, FuturableHttpRequest, HttpError, FuturableOptions, FuturablePollingOptions, FuturableProgressOptions, FuturableReject, FuturableResolve, FuturableResponseValidator, FuturableUtils } from "./Futurable";
 
 /**
  * Configuration options for memoization behavior.
@@ -7,14 +8,271 @@ import { Futurable, FuturableExecutor, FuturableReject, FuturableResolve, Futura
  *
  * @property enabled - Whether memoization is active
  * @property catchErrors - If true, caches the result even when the execution rejects
+ * @property ttl - Time in milliseconds a settled result stays fresh (default: forever)
+ * @property staleWhileRevalidate - If true, an expired result keeps being served while it is refreshed in the background
+ * @property persist - Where and how fulfilled results are persisted
  * @property instance - The cached Futurable instance (if memoization is active)
+ * @property cachedAt - Timestamp at which the cached instance settled
+ * @property revalidating - The background execution refreshing an expired instance
+ * @property pendingDelete - Deletion of the persisted entry started by invalidate(), awaited before the next store read
  */
 export type MemoizeOptions<T> = {
 	enabled: boolean;
 	catchErrors?: boolean;
+	ttl?: number;
+	staleWhileRevalidate?: boolean;
+	persist?: MemoizePersistOptions<T>;
 	instance?: Futurable<T>;
+	cachedAt?: number;
+	revalidating?: Futurable<T>;
+	pendingDelete?: Promise<void>;
 };
 
+/**
+ * Storage backend for memoized results.
+ *
+ * Values are serialized strings. Implementations are responsible for expiry: `get` must
+ * return undefined for missing or expired keys. Every method may be synchronous or return a Promise.
+ *
+ * Built-in implementations are available through FuturableTask.createMemoryStore(),
+ * FuturableTask.createFileStore() and FuturableTask.createLocalStorageStore().
+ *
+ * @property get - Returns the value stored under `key`, or undefined if missing or expired
+ * @property set - Stores `value` under `key`, expiring after `ttl` milliseconds if provided
+ * @property delete - Removes the value stored under `key`
+ *
+ * @example
+ * ```typescript
+ * // Redis-backed store
+ * const redisStore: CacheStore = {
+ *   get: async (key) => (await redis.get(key)) ?? undefined,
+ *   set: async (key, value, ttl) => { await redis.set(key, value, ttl ? { PX: ttl } : undefined); },
+ *   delete: async (key) => { await redis.del(key); }
+ * };
+ * ```
+ */
+export interface CacheStore {
+	get(key: string): string | undefined | Promise<string | undefined>;
+	set(key: string, value: string, ttl?: number): void | Promise<void>;
+	delete(key: string): void | Promise<void>;
+}
+
+/**
+ * File system functions used by FuturableTask.createFileStore().
+ * The `node:fs/promises` module satisfies this interface.
+ *
+ * @property readFile - Reads a file as UTF-8 text, rejecting if it does not exist
+ * @property writeFile - Writes text to a file, creating it if needed
+ */
+export interface CacheFileSystem {
+	readFile(path: string, encoding: "utf8"): Promise<string>;
+	writeFile(path: string, data: string): Promise<unknown>;
+}
+
+/**
+ * Persistence options of memoize().
+ *
+ * @template T - The type of value being memoized
+ *
+ * @property store - The CacheStore holding the serialized result
+ * @property key - Key under which the result is stored
+ * @property serialize - Converts the result to a string (default: JSON.stringify)
+ * @property deserialize - Converts a stored string back to a result (default: JSON.parse)
+ *
+ * @example
+ * ```typescript
+ * const persist: MemoizePersistOptions<Config> = {
+ *   store: FuturableTask.createLocalStorageStore(),
+ *   key: 'app-config'
+ * };
+ * ```
+ */
+export interface MemoizePersistOptions<T> {
+	store: CacheStore;
+	key: string;
+	serialize?(value: T): string;
+	deserialize?(raw: string): T;
+}
+
+/**
+ * Shape of the entries written by the built-in cache stores.
+ *
+ * @private
+ */
+type StoredCacheEntry = {
+	value: string;
+	expiresAt?: number;
+};
+
+/**
+ * Shape of the values memoize() writes to a CacheStore: the serialized result
+ * and the time at which it was cached.
+ *
+ * @private
+ */
+type PersistedMemoEntry = {
+	value: string;
+	cachedAt: number;
+};
+
+/**
+ * Configuration accepted by memoize().
+ *
+ * @property catchErrors - If true, caches the result even when the execution rejects (default: false)
+ * @property ttl - Time in milliseconds a settled result stays fresh. Once expired, the next run()
+ *                 executes the task again (default: the result never expires)
+ * @property staleWhileRevalidate - If true, once the ttl has expired run() keeps returning the
+ *                                  cached result while a single background execution refreshes it.
+ *                                  A failed refresh is not cached: the stale result is kept (default: false)
+ * @property persist - Persists fulfilled results to a CacheStore, so they survive page reloads or
+ *                     process restarts. The store is read on the first run(); the `ttl` is applied
+ *                     to stored entries as well. Failures are never persisted.
+ *
+ * @example
+ * ```typescript
+ * const config: MemoizeConfig<Config> = {
+ *   ttl: 60_000,
+ *   staleWhileRevalidate: true,
+ *   persist: { store: FuturableTask.createLocalStorageStore(), key: 'config' }
+ * };
+ * ```
+ */
+export interface MemoizeConfig<T = any> {
+	catchErrors?: boolean;
+	ttl?: number;
+	staleWhileRevalidate?: boolean;
+	persist?: MemoizePersistOptions<T>;
+}
+
+/**
+ * Strategy used to compute the delay between retry attempts.
+ *
+ * - `fixed`: always waits `delay` ms
+ * - `linear`: waits `delay * attempt` ms
+ * - `exponential`: waits `delay * factor^(attempt - 1)` ms
+ * - `decorrelated-jitter`: waits a random time between `delay` and three times the previous delay
+ */
+export type BackoffStrategy = "fixed" | "linear" | "exponential" | "decorrelated-jitter";
+
+/**
+ * Configuration options for retry behavior.
+ *
+ * @property delay - Base delay between attempts in milliseconds (default: 0)
+ * @property backoff - Strategy used to grow the delay between attempts (default: "fixed")
+ * @property factor - Multiplier applied by the exponential strategy (default: 2)
+ * @property maxDelay - Upper bound for any computed delay in milliseconds
+ * @property shouldRetry - Predicate deciding whether a failed attempt should be retried.
+ *                         Receives the error and the number of the failed attempt (starting from 1)
+ * @property onRetry - Hook invoked before waiting for the next attempt, with the error,
+ *                     the number of the failed attempt and the delay about to be applied
+ *
+ * The `E` type parameter is the error type of the retried task, so `shouldRetry` and
+ * `onRetry` receive typed errors when used through `FuturableTask.retry`.
+ *
+ * @example
+ * ```typescript
+ * const options: RetryOptions = {
+ *   delay: 200,
+ *   backoff: 'exponential',
+ *   maxDelay: 5000,
+ *   shouldRetry: (error) => error.status !== 404,
+ *   onRetry: (error, attempt, delay) => console.warn(`Attempt ${attempt} failed, retrying in ${delay}ms`)
+ * };
+ * ```
+ */
+export interface RetryOptions<E = any> {
+	delay?: number;
+	backoff?: BackoffStrategy;
+	factor?: number;
+	maxDelay?: number;
+	shouldRetry?: (error: E, attempt: number) => boolean | Promise<boolean>;
+	onRetry?: (error: E, attempt: number, delay: number) => void;
+}
+
+/**
+ * Configuration options for status-aware HTTP retries.
+ *
+ * @property statusCodes - Response statuses that trigger a retry (default: 408, 425, 429, 500, 502, 503, 504)
+ * @property networkErrors - If true, network failures (the TypeError thrown by fetch) trigger a retry (default: true)
+ * @property method - Method of the request, used to skip retries of non-idempotent requests
+ *                    (default: the method recorded by the fetch helpers that created the task)
+ * @property retryNonIdempotent - If true, requests with a non-idempotent or unknown method are retried too (default: false)
+ * @property maxRetryAfter - Longest `Retry-After` wait accepted in milliseconds: a longer one ends the retries (default: Infinity)
+ * @property onRetry - Hook invoked before waiting for the next attempt, with the discarded response or the error,
+ *                     the number of the failed attempt and the delay about to be applied
+ *
+ * The backoff options (`delay`, `backoff`, `factor`, `maxDelay`) are the ones of RetryOptions and apply
+ * when the response carries no `Retry-After` header.
+ *
+ * @example
+ * ```typescript
+ * const options: RetryHttpOptions = {
+ *   statusCodes: [429, 503],
+ *   delay: 500,
+ *   backoff: 'exponential',
+ *   maxRetryAfter: 30_000
+ * };
+ * ```
+ */
+export interface RetryHttpOptions extends Omit<RetryOptions, "shouldRetry" | "onRetry"> {
+	statusCodes?: number[];
+	networkErrors?: boolean;
+	method?: string;
+	retryNonIdempotent?: boolean;
+	maxRetryAfter?: number;
+	onRetry?: (reason: unknown, attempt: number, delay: number) => void;
+}
+
+/**
+ * Reconnection options of the streams created by FuturableTask.fetchEvents() and FuturableTask.fetchLines().
+ *
+ * A connection is re-opened after a network failure or a response with a retryable status
+ * (408, 425, 429 and 5xx gateway/availability errors); other statuses end the stream with an HttpError.
+ * The attempt counter is reset every time a connection opens successfully.
+ *
+ * @property retries - Maximum number of consecutive reconnection attempts
+ * @property delay - Base delay before reconnecting in milliseconds (default: 1000)
+ * @property backoff - Strategy used to grow the delay between attempts (default: "exponential")
+ * @property factor - Multiplier applied by the exponential strategy (default: 2)
+ * @property maxDelay - Upper bound for any computed delay in milliseconds (default: 30000)
+ * @property onReconnect - Hook invoked before waiting to reconnect, with the attempt number, the delay
+ *                         and the error that closed the connection (undefined if the server closed it).
+ *                         If it throws, the stream ends with its error without reconnecting
+ */
+export interface StreamReconnectOptions extends Omit<RetryOptions, "shouldRetry" | "onRetry"> {
+	retries?: number;
+	onReconnect?: (attempt: number, delay: number, error: unknown) => void;
+}
+
+/**
+ * Options of FuturableTask.fetchEvents(): Fetch API options plus the reconnection options.
+ * Reconnections are unlimited by default, as with EventSource.
+ *
+ * @property lastEventId - Event ID to resume from, sent in the `Last-Event-ID` header of the first connection
+ */
+export interface FetchEventsOptions extends RequestInit, StreamReconnectOptions {
+	lastEventId?: string;
+}
+
+/**
+ * Options of FuturableTask.fetchLines(): Fetch API options plus the reconnection options.
+ * Line streams have no resume position, so they do not reconnect unless `retries` is set.
+ */
+export interface FetchLinesOptions extends RequestInit, StreamReconnectOptions { }
+
+/**
+ * Event received from a Server-Sent Events stream, shaped like the MessageEvent of EventSource.
+ *
+ * @property type - Event type, from the `event` field (default: "message")
+ * @property data - Event data, the `data` fields joined with newlines
+ * @property lastEventId - Last event ID received on the stream
+ */
+export interface ServerSentEvent {
+	type: string;
+	data: string;
+	lastEventId: string;
+}
+
 /**
  * Event hooks for monitoring task limiter lifecycle.
  * All hooks are optional and provide insight into task execution flow.
@@ -23,6 +281,12 @@ export type MemoizeOptions<T> = {
  * @property onCompleted - Called when a task completes successfully with its result
  * @property onError - Called when a task fails with an error
  * @property onIdle - Called when all tasks have completed and the queue is empty
+ * @property onPause - Called when the limiter is paused
+ * @property onResume - Called when the limiter is resumed
+ * @property onDrain - Called when the last pending task leaves the queue (dispatched, cancelled or cleared)
+ *
+ * Limiters created with `createKeyedLimiter` pass the task key as the last argument
+ * of `onActive`, `onCompleted`, `onError`, `onIdle` and `onDrain`.
  *
  * @example
  * ```typescript
@@ -30,26 +294,62 @@ export type MemoizeOptions<T> = {
  *   onActive: (task) => console.log('Task started:', task),
  *   onCompleted: (result) => console.log('Task completed:', result),
  *   onError: (error) => console.error('Task failed:', error),
- *   onIdle: () => console.log('All tasks finished')
+ *   onIdle: () => console.log('All tasks finished'),
+ *   onPause: () => console.log('Dispatching paused'),
+ *   onResume: () => console.log('Dispatching resumed'),
+ *   onDrain: () => console.log('Queue is empty')
  * };
  * ```
  */
 export interface LimiterEvents {
-	onActive?: (task: any) => void;
-	onCompleted?: (result: any) => void;
-	onError?: (error: any) => void;
-	onIdle?: () => void;
+	onActive?: (task: any, key?: any) => void;
+	onCompleted?: (result: any, key?: any) => void;
+	onError?: (error: any, key?: any) => void;
+	onIdle?: (key?: any) => void;
+	onPause?: () => void;
+	onResume?: () => void;
+	onDrain?: (key?: any) => void;
+}
+
+/**
+ * Per-task scheduling options accepted by a limiter.
+ *
+ * @property priority - Tasks with a higher priority are dispatched first (default: 0).
+ *                      Tasks with the same priority are dispatched in submission order.
+ * @property weight - Number of concurrency slots the task occupies while running (default: 1).
+ *                    Weights larger than the limiter concurrency are capped to it.
+ *
+ * @example
+ * ```typescript
+ * const limiter = FuturableTask.createLimiter(5);
+ *
+ * limiter(userRequestTask, { priority: 10 });
+ * limiter(bulkExportTask, { weight: 3 });
+ * ```
+ */
+export interface LimiterTaskOptions {
+	priority?: number;
+	weight?: number;
 }
 
 /**
  * A higher-order function that wraps tasks with concurrency limiting.
  *
  * Acts as both a function and an object with readonly properties.
- * The function takes a task and returns a new task that respects the concurrency limit.
+ * The function takes a task (and optional priority/weight) and returns a new task
+ * that respects the concurrency limit.
  *
  * @property activeCount - Number of tasks currently executing
  * @property pendingCount - Number of tasks waiting in the queue
- * @property concurrency - Maximum number of concurrent tasks allowed
+ * @property concurrency - Maximum number of concurrent tasks allowed. Can be changed at runtime:
+ *                        raising it dispatches queued tasks immediately, lowering it lets
+ *                        running tasks finish and holds back new ones until enough slots are free
+ * @property isPaused - Whether dispatching of queued tasks is paused
+ * @property pause - Stops dispatching queued tasks; running tasks are not affected
+ * @property resume - Resumes dispatching queued tasks
+ * @property onIdle - Returns a Futurable that resolves when the queue and the active set are both empty
+ * @property drain - Alias of onIdle
+ * @property clear - Cancels every pending task with the given reason and empties the queue
  *
  * @example
  * ```typescript
@@ -61,13 +361,304 @@ export interface LimiterEvents {
  *
  * const limitedTask = limiter(myTask);
  * ```
+ *
+ * @example
+ * ```typescript
+ * window.addEventListener('offline', () => limiter.pause());
+ * window.addEventListener('online', () => limiter.resume());
+ *
+ * await limiter.onIdle();
+ * ```
+ */
+export type FuturableTaskLimiter = (<T, E = unknown>(task: FuturableTask<T, E>, options?: LimiterTaskOptions) => FuturableTask<T, E>) & {
+	readonly activeCount: number;
+	readonly pendingCount: number;
+	concurrency: number;
+	readonly isPaused: boolean;
+	pause(): void;
+	resume(): void;
+	onIdle(): Futurable<void>;
+	drain(): Futurable<void>;
+	clear(reason?: unknown): void;
+};
+
+/**
+ * A higher-order function that wraps tasks with per-key concurrency limiting.
+ *
+ * Each key gets its own queue with independent concurrency, created on first use
+ * and discarded as soon as it becomes idle.
+ *
+ * @property activeCount - Number of tasks currently executing across all keys
+ * @property pendingCount - Number of tasks waiting across all keys
+ * @property keyCount - Number of keys with queued or running tasks
+ *
+ * @example
+ * ```typescript
+ * const writes = FuturableTask.createKeyedLimiter<string>(1);
+ *
+ * const save = (doc) => writes(doc.id, FuturableTask.of(() => persist(doc)));
+ * ```
  */
-export type FuturableTaskLimiter = (<T>(task: FuturableTask<T>) => FuturableTask<T>) & {
+export type FuturableTaskKeyedLimiter<K = string> = (<T, E = unknown>(key: K, task: FuturableTask<T, E>, options?: LimiterTaskOptions) => FuturableTask<T, E>) & {
 	readonly activeCount: number;
 	readonly pendingCount: number;
-	readonly concurrency: number;
+	readonly keyCount: number;
+};
+
+/**
+ * Configuration options for a token-bucket rate limiter.
+ *
+ * @property tokensPerInterval - Number of tokens added to the bucket every `interval` milliseconds
+ * @property interval - Length of the refill interval in milliseconds
+ * @property burst - Maximum number of tokens the bucket can hold (default: tokensPerInterval).
+ *                   The bucket starts full, so up to `burst` tasks can start at once.
+ *
+ * @example
+ * ```typescript
+ * // 10 requests per second, never more than 20 at once
+ * const options: RateLimiterOptions = { tokensPerInterval: 10, interval: 1000, burst: 20 };
+ * ```
+ */
+export interface RateLimiterOptions {
+	tokensPerInterval: number;
+	interval: number;
+	burst?: number;
+}
+
+/**
+ * A higher-order function that wraps tasks with throughput limiting.
+ *
+ * Every wrapped task consumes one token when it starts. Tasks that find the bucket
+ * empty wait in a FIFO queue until a token is refilled.
+ *
+ * @property availableTokens - Number of whole tokens currently in the bucket
+ * @property pendingCount - Number of tasks waiting for a token
+ *
+ * @example
+ * ```typescript
+ * const rateLimiter = FuturableTask.createRateLimiter({ tokensPerInterval: 10, interval: 1000 });
+ *
+ * console.log(rateLimiter.availableTokens); // 10
+ * console.log(rateLimiter.pendingCount);    // 0
+ *
+ * const limitedTask = rateLimiter(myTask);
+ * ```
+ */
+export type FuturableTaskRateLimiter = (<T, E = unknown>(task: FuturableTask<T, E>) => FuturableTask<T, E>) & {
+	readonly availableTokens: number;
+	readonly pendingCount: number;
+};
+
+/**
+ * State of a circuit breaker.
+ *
+ * - `closed`: tasks run normally and failures are counted
+ * - `open`: tasks fail fast with a CircuitOpenError without being executed
+ * - `half-open`: a limited number of trial tasks run to probe whether the resource recovered
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Configuration options for a circuit breaker.
+ *
+ * @property failureThreshold - Number of failures within the rolling window that opens the circuit (default: 5)
+ * @property rollingWindow - Time window in milliseconds in which failures are counted (default: 60000)
+ * @property resetTimeout - Time in milliseconds the circuit stays open before moving to half-open (default: 30000)
+ * @property halfOpenMaxCalls - Maximum number of concurrent trial tasks while half-open (default: 1)
+ * @property successThreshold - Number of successful trial tasks needed to close the circuit again (default: 1)
+ * @property isFailure - Predicate deciding whether an error counts as a failure (default: every error)
+ */
+export interface CircuitBreakerOptions {
+	failureThreshold?: number;
+	rollingWindow?: number;
+	resetTimeout?: number;
+	halfOpenMaxCalls?: number;
+	successThreshold?: number;
+	isFailure?: (error: any) => boolean;
+}
+
+/**
+ * Event hooks for monitoring circuit breaker state changes.
+ * All hooks are optional.
+ *
+ * @property onStateChange - Called on every state transition with the new and the previous state
+ * @property onOpen - Called when the circuit opens
+ * @property onHalfOpen - Called when the circuit moves to half-open
+ * @property onClose - Called when the circuit closes again
+ * @property onReject - Called when a task is rejected because the circuit is open
+ *
+ * @example
+ * ```typescript
+ * const events: CircuitBreakerEvents = {
+ *   onStateChange: (state, previous) => console.log(`Circuit ${previous} -> ${state}`),
+ *   onReject: (error) => metrics.increment('circuit.rejected')
+ * };
+ * ```
+ */
+export interface CircuitBreakerEvents {
+	onStateChange?: (state: CircuitState, previous: CircuitState) => void;
+	onOpen?: () => void;
+	onHalfOpen?: () => void;
+	onClose?: () => void;
+	onReject?: (error: CircuitOpenError) => void;
+}
+
+/**
+ * A higher-order function that wraps tasks with circuit breaker protection.
+ *
+ * Acts as both a function and an object with readonly properties.
+ * The function takes a task and returns a new task that fails fast while the circuit is open.
+ *
+ * @property state - Current state of the circuit
+ * @property failureCount - Number of failures counted in the current rolling window
+ * @property reset - Forces the circuit back to the closed state and clears the failure count
+ *
+ * @example
+ * ```typescript
+ * const breaker = FuturableTask.createCircuitBreaker({ failureThreshold: 3 });
+ *
+ * console.log(breaker.state);        // 'closed'
+ * console.log(breaker.failureCount); // 0
+ *
+ * const protectedTask = breaker(myTask);
+ * ```
+ */
+export type FuturableTaskCircuitBreaker = (<T, E = unknown>(task: FuturableTask<T, E>) => FuturableTask<T, E | CircuitOpenError>) & {
+	readonly state: CircuitState;
+	readonly failureCount: number;
+	reset: () => void;
+};
+
+/**
+ * Configuration options for memoizeFn().
+ *
+ * @template A - The argument types of the memoized factory
+ *
+ * @property key - Computes the cache key from the factory arguments (default: `JSON.stringify(args)`)
+ * @property maxSize - Maximum number of cached entries; the least recently used entry is evicted first (default: Infinity)
+ * @property ttl - Time in milliseconds a settled result stays fresh (default: forever)
+ * @property catchErrors - If true, failed results stay cached instead of being evicted (default: false)
+ *
+ * @example
+ * ```typescript
+ * const options: MemoizeFnOptions<[number]> = { key: id => id, maxSize: 100, ttl: 30_000 };
+ * ```
+ */
+export interface MemoizeFnOptions<A extends any[]> {
+	key?: (...args: A) => unknown;
+	maxSize?: number;
+	ttl?: number;
+	catchErrors?: boolean;
+}
+
+/**
+ * A memoized task factory returned by memoizeFn().
+ *
+ * Acts as both a function with the same signature as the original factory and an object
+ * to inspect and manage the cache.
+ *
+ * @property size - Number of cached entries, not counting the ones whose `ttl` has expired
+ * @property invalidate - Removes the entry for the given arguments, returning whether it existed
+ * @property clear - Removes every entry
+ *
+ * @example
+ * ```typescript
+ * const getUser = FuturableTask.memoizeFn((id: number) => FuturableTask.fetch(`/users/${id}`));
+ *
+ * await getUser(1).run();
+ * console.log(getUser.size); // 1
+ * getUser.invalidate(1);
+ * ```
+ */
+export type FuturableTaskMemoizedFn<A extends any[], T, E = unknown> = ((...args: A) => FuturableTask<T, E>) & {
+	readonly size: number;
+	invalidate: (...args: A) => boolean;
+	clear: () => void;
 };
 
+/**
+ * Options of FuturableTask.poll().
+ *
+ * Same as the options of Futurable.polling() (interval, immediate, until, maxErrors, backoff,
+ * jitter, mode, onResult), except for the signal, which is the one of each run.
+ *
+ * @property onError - Called with the error of every failed tick
+ *
+ * @example
+ * ```typescript
+ * const options: PollOptions<Job> = {
+ *   interval: 2000,
+ *   immediate: true,
+ *   mode: 'fixed-delay',
+ *   until: job => job.status === 'done',
+ *   maxErrors: 3,
+ *   onError: err => console.warn('Poll failed', err)
+ * };
+ * ```
+ */
+export interface PollOptions<T> extends Omit<FuturablePollingOptions<T>, "signal"> {
+	onError?: (error: unknown) => void;
+}
+
+/**
+ * Error used to reject tasks wrapped by a circuit breaker while the circuit is open.
+ *
+ * @property retryAfter - Milliseconds left before the circuit moves to half-open
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await breaker(FuturableTask.fetch('/api')).run();
+ * } catch (err) {
+ *   if (err instanceof CircuitOpenError) {
+ *     console.log(`Service unavailable, retry in ${err.retryAfter}ms`);
+ *   }
+ * }
+ * ```
+ */
+export class CircuitOpenError extends Error {
+	readonly retryAfter: number;
+
+	constructor(retryAfter: number) {
+		super("Circuit is open");
+		this.name = "CircuitOpenError";
+		this.retryAfter = retryAfter;
+	}
+}
+
+/**
+ * Error used to reject tasks that exceed the time limit set with `timeout()` or `withDeadline()`.
+ * The inner run's signal is aborted with this error as its reason.
+ *
+ * @property timeout - The configured time limit in milliseconds
+ * @property elapsed - Milliseconds elapsed between the start of the run and the timeout
+ * @property deadline - Absolute deadline (epoch milliseconds) that was exceeded
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await FuturableTask.fetch('/api/slow').timeout(5000).run();
+ * } catch (err) {
+ *   if (err instanceof TimeoutError) {
+ *     console.log(`Gave up after ${err.elapsed}ms (limit: ${err.timeout}ms)`);
+ *   }
+ * }
+ * ```
+ */
+export class TimeoutError extends Error {
+	readonly timeout: number;
+	readonly elapsed: number;
+	readonly deadline: number;
+
+	constructor(timeout: number, elapsed: number, deadline: number) {
+		super(`Timed out after ${timeout}ms`);
+		this.name = "TimeoutError";
+		this.timeout = timeout;
+		this.elapsed = elapsed;
+		this.deadline = deadline;
+	}
+}
+
 /**
  * Lazy computation wrapper for deferred execution.
  *
@@ -80,6 +671,9 @@ export type FuturableTaskLimiter = (<T>(task: FuturableTask<T>) => FuturableTask
  * - Supports cancellation at both task and execution level
  *
  * @template T - The type of value this task will eventually produce
+ * @template E - The type of error this task may reject with (default: unknown).
+ *               It flows through operators such as `map`, `flatMap`, `retry` and `timeout`,
+ *               is narrowed by `catchError`/`orElse`, and types the error side of `runSafe`
  *
  * @example
  * ```typescript
@@ -118,7 +712,7 @@ export type FuturableTaskLimiter = (<T>(task: FuturableTask<T>) => FuturableTask
  * task.cancel(); // Logs: "Cleanup", cancels the operation
  * ```
  */
-export class FuturableTask<T> {
+export class FuturableTask<T, E = unknown> {
 	/**
 	 * Internal AbortController that manages task cancellation.
 	 * Created in the constructor and used to abort all executions of this task.
@@ -155,29 +749,77 @@ export class FuturableTask<T> {
 	 *
 	 * @private
 	 */
-	private sourceTask?: FuturableTask<T>;
+	private sourceTask?: FuturableTask<T, E>;
 
 	/**
-	 * Creates a new FuturableTask.
-	 *
-	 * The executor function is NOT invoked until run() is called.
-	 * If an external signal is provided, aborting it will also cancel this task.
+	 * Method of the request performed by this task, recorded by the fetch helpers for retryHttp().
+	 * Undefined for any other task, including the ones derived from a fetch task.
 	 *
-	 * @param executor - The executor function that defines the computation.
-	 *                   Receives resolve, reject, and utils (with signal, onCancel, delay, sleep, fetch, etc.)
-	 * @param externalSignal - Optional AbortSignal that will cancel this task when aborted.
-	 *                         Useful for coordinating cancellation with parent operations.
+	 * @private
+	 */
+	private requestMethod?: string;
+
+	/**
+	 * Signals each run signal is derived from, used to propagate deadlines to nested runs.
 	 *
-	 * @example
-	 * ```typescript
-	 * // Basic task
-	 * const task = new FuturableTask((resolve, reject, utils) => {
-	 *   setTimeout(() => resolve('done'), 1000);
-	 * });
-	 * ```
+	 * @private
+	 */
+	private static readonly signalParents = new WeakMap<AbortSignal, AbortSignal[]>();
+
+	/**
+	 * Absolute deadlines (epoch milliseconds) attached by timeout() and withDeadline().
 	 *
-	 * @example
-	 * ```typescript
+	 * @private
+	 */
+	private static readonly signalDeadlines = new WeakMap<AbortSignal, number>();
+
+	/**
+	 * Time at which a result restored from a persistent store was originally cached,
+	 * keyed by the signal of the execution that restored it.
+	 *
+	 * @private
+	 */
+	private static readonly restoredAt = new WeakMap<AbortSignal, number>();
+
+	/**
+	 * Response statuses retried by default by retryHttp() and by the reconnecting streams.
+	 *
+	 * @private
+	 */
+	private static readonly retryableStatuses = [408, 425, 429, 500, 502, 503, 504];
+
+	/**
+	 * Whether the Futurables created by run() reject with a CancellationError on cancellation
+	 * instead of staying pending.
+	 *
+	 * @private
+	 * @readonly
+	 */
+	private readonly rejectOnCancelMode: boolean;
+
+	/**
+	 * Creates a new FuturableTask.
+	 *
+	 * The executor function is NOT invoked until run() is called.
+	 * If an external signal is provided, aborting it will also cancel this task.
+	 *
+	 * @param executor - The executor function that defines the computation.
+	 *                   Receives resolve, reject, and utils (with signal, onCancel, delay, sleep, fetch, etc.)
+	 * @param externalSignalOrOptions - Optional AbortSignal that will cancel this task when aborted,
+	 *                                  or an options object with `signal` and `rejectOnCancel`.
+	 *                                  With `rejectOnCancel: true`, every execution rejects with a
+	 *                                  CancellationError when cancelled instead of staying pending.
+	 *
+	 * @example
+	 * ```typescript
+	 * // Basic task
+	 * const task = new FuturableTask((resolve, reject, utils) => {
+	 *   setTimeout(() => resolve('done'), 1000);
+	 * });
+	 * ```
+	 *
+	 * @example
+	 * ```typescript
 	 * // With cancellation support
 	 * const task = new FuturableTask((resolve, reject, utils) => {
 	 *   const timeoutId = setTimeout(() => resolve('done'), 5000);
@@ -199,8 +841,24 @@ export class FuturableTask<T> {
 	 *
 	 * controller.abort(); // Cancels the task
 	 * ```
+	 *
+	 * @example
+	 * ```typescript
+	 * // Rejecting on cancellation
+	 * const task = new FuturableTask((res) => {
+	 *   setTimeout(() => res('value'), 5000);
+	 * }, { rejectOnCancel: true });
+	 *
+	 * const run = task.run();
+	 * task.cancel('Stopped by user');
+	 * await run; // Throws CancellationError with reason 'Stopped by user'
+	 * ```
 	 */
-	constructor(private readonly executor: FuturableExecutor<T>, externalSignal?: AbortSignal) {
+	constructor(private readonly executor: FuturableExecutor<T>, externalSignalOrOptions?: AbortSignal | FuturableOptions) {
+		const { signal: externalSignal, rejectOnCancel = false } = externalSignalOrOptions instanceof AbortSignal
+			? { signal: externalSignalOrOptions }
+			: (externalSignalOrOptions || {});
+		this.rejectOnCancelMode = rejectOnCancel;
 		this.controller = new AbortController();
 
 		// Register task-level cancellation callbacks
@@ -211,9 +869,9 @@ export class FuturableTask<T> {
 		// Link external signal if provided
 		if (externalSignal) {
 			if (externalSignal.aborted) {
-				this.controller.abort();
+				this.controller.abort(externalSignal.reason);
 			} else {
-				externalSignal.addEventListener("abort", () => this.controller.abort(), { once: true });
+				externalSignal.addEventListener("abort", () => this.controller.abort(externalSignal.reason), { once: true });
 			}
 		}
 	}
@@ -239,6 +897,62 @@ export class FuturableTask<T> {
 		return this.controller.signal;
 	}
 
+	/**
+	 * Age in milliseconds of the result cached by memoize(), or undefined if there is
+	 * no settled result in the cache (task not memoized, never run, still running or invalidated).
+	 *
+	 * @returns The cache age in milliseconds, or undefined
+	 *
+	 * @example
+	 * ```typescript
+	 * const task = FuturableTask.of(() => loadConfig()).memoize({ ttl: 60_000 });
+	 *
+	 * await task.run();
+	 * console.log(task.cacheAge); // 0
+	 * ```
+	 */
+	get cacheAge(): number | undefined {
+		const { cachedAt } = this.memoizeOptions;
+		return cachedAt === undefined ? undefined : Date.now() - cachedAt;
+	}
+
+	/**
+	 * Drops the result cached by memoize(), so the next run() executes the task again.
+	 *
+	 * Executions already in progress are not cancelled; runs that already received the
+	 * cached Futurable keep it. When the task persists its results, the stored entry is
+	 * deleted as well, and the next run() waits for the deletion before reading the store.
+	 * Has no effect on tasks that are not memoized.
+	 *
+	 * @example
+	 * ```typescript
+	 * const token = FuturableTask.of(() => fetchAuthToken()).memoize();
+	 *
+	 * await token.run();
+	 * onLogout(() => token.invalidate());
+	 * ```
+	 */
+	invalidate(): void {
+		this.resetMemo();
+		const { persist } = this.memoizeOptions;
+		if (persist) {
+			this.memoizeOptions.pendingDelete = Promise.resolve()
+				.then(() => persist.store.delete(persist.key))
+				.catch(() => {});
+		}
+	}
+
+	/**
+	 * Drops the in-memory state of memoize().
+	 *
+	 * @private
+	 */
+	private resetMemo(): void {
+		delete this.memoizeOptions.instance;
+		delete this.memoizeOptions.cachedAt;
+		delete this.memoizeOptions.revalidating;
+	}
+
 	/**
 	 * Cancels all running and future executions of this task.
 	 *
@@ -248,8 +962,14 @@ export class FuturableTask<T> {
 	 * 3. Cancel all Futurables created by run() that haven't completed yet
 	 * 4. Prevent new executions from starting (they will be pending)
 	 *
+	 * The optional reason is propagated to the signal of every execution (`signal.reason`).
+	 * Tasks created with `rejectOnCancel` reject their executions with a CancellationError
+	 * carrying that reason instead of leaving them pending.
+	 *
 	 * Note: This is idempotent - calling it multiple times has no additional effect.
 	 *
+	 * @param reason - Optional cancellation reason
+	 *
 	 * @example
 	 * ```typescript
 	 * const task = FuturableTask.of(() => longRunningOperation());
@@ -270,9 +990,9 @@ export class FuturableTask<T> {
 	 * task.cancel(); // Does nothing (already cancelled)
 	 * ```
 	 */
-	cancel(): void {
+	cancel(reason?: any): void {
 		if (!this.controller.signal.aborted) {
-			this.controller.abort();
+			this.controller.abort(reason);
 		}
 	}
 
@@ -371,42 +1091,234 @@ export class FuturableTask<T> {
 	 * ```
 	 */
 	run(overrideSignal?: AbortSignal): Futurable<T> {
-		if (this.memoizeOptions.enabled && this.memoizeOptions.instance) {
-			if (this.memoizeOptions.instance.signal.aborted) {
-				delete this.memoizeOptions.instance;
+		const memo = this.memoizeOptions;
+		if (memo.enabled && memo.instance) {
+			const expired = memo.ttl !== undefined && memo.cachedAt !== undefined && Date.now() - memo.cachedAt >= memo.ttl;
+			if (memo.instance.signal.aborted) {
+				this.resetMemo();
+			} else if (!expired) {
+				return memo.instance;
+			} else if (memo.staleWhileRevalidate) {
+				if (!memo.revalidating) {
+					this.revalidate();
+				}
+				return memo.instance;
 			} else {
-				return this.memoizeOptions.instance;
+				this.resetMemo();
 			}
 		}
 
+		const f = this.execute(overrideSignal);
+
+		if (memo.enabled) {
+			memo.instance = f;
+			f.then(
+				() => {
+					if (memo.instance === f) {
+						memo.cachedAt = FuturableTask.restoredAt.get(f.signal) ?? Date.now();
+					}
+				},
+				() => {
+					if (memo.instance !== f) {
+						return;
+					}
+					if (memo.catchErrors) {
+						memo.cachedAt = Date.now();
+					} else {
+						this.resetMemo();
+					}
+				}
+			);
+		}
+
+		return f;
+	}
+
+	/**
+	 * Refreshes an expired memoized result in the background. The new result replaces
+	 * the cached one only if it fulfills and the cache was not invalidated meanwhile.
+	 *
+	 * @private
+	 */
+	private revalidate(): void {
+		const memo = this.memoizeOptions;
+		const f = this.execute();
+		memo.revalidating = f;
+		f.then(
+			() => {
+				if (memo.revalidating === f) {
+					delete memo.revalidating;
+					memo.instance = f;
+					memo.cachedAt = FuturableTask.restoredAt.get(f.signal) ?? Date.now();
+				}
+			},
+			() => {
+				if (memo.revalidating === f) {
+					delete memo.revalidating;
+				}
+			}
+		);
+	}
+
+	/**
+	 * Creates a new execution of the executor, linked to the task signal and to the optional override signal.
+	 *
+	 * @private
+	 */
+	private execute(overrideSignal?: AbortSignal): Futurable<T> {
 		const runController = new AbortController();
 
 		if (this.signal.aborted) {
-			runController.abort();
+			runController.abort(this.signal.reason);
 		} else {
-			this.signal.addEventListener("abort", () => runController.abort(), { once: true });
+			this.signal.addEventListener("abort", () => runController.abort(this.signal.reason), { once: true });
 		}
 
 		if (overrideSignal) {
 			if (overrideSignal.aborted) {
-				runController.abort();
+				runController.abort(overrideSignal.reason);
 			} else {
-				overrideSignal.addEventListener("abort", () => runController.abort(), { once: true });
+				overrideSignal.addEventListener("abort", () => runController.abort(overrideSignal.reason), { once: true });
 			}
 		}
 
-		const f = new Futurable<T>(this.executor, runController.signal);
+		FuturableTask.linkSignal(runController.signal, [this.signal, overrideSignal]);
 
-		if (this.memoizeOptions.enabled) {
-			this.memoizeOptions.instance = f;
-			if (!this.memoizeOptions.catchErrors) {
-				f.catch(() => {
-					delete this.memoizeOptions.instance;
-				});
+		const { enabled, persist } = this.memoizeOptions;
+		const executor = enabled && persist ? this.persistedExecutor(persist) : this.executor;
+		const futurable = new Futurable<T>(executor, { signal: runController.signal, rejectOnCancel: this.rejectOnCancelMode });
+		FuturableTask.linkSignal(futurable.signal, [runController.signal]);
+		return futurable;
+	}
+
+	/**
+	 * Records the signals a signal is derived from and, optionally, the deadline attached to it.
+	 * Links are resolved lazily by deadlineOf, so they can be registered after a nested run
+	 * has already started.
+	 *
+	 * @private
+	 */
+	private static linkSignal(signal: AbortSignal, parents: (AbortSignal | undefined)[], deadline?: number): void {
+		FuturableTask.signalParents.set(signal, parents.filter((parent): parent is AbortSignal => !!parent));
+		if (deadline !== undefined) {
+			FuturableTask.signalDeadlines.set(signal, deadline);
+		}
+	}
+
+	/**
+	 * Returns the earliest deadline (epoch milliseconds) attached to a signal or to any
+	 * signal it is derived from, or undefined if the run has no deadline.
+	 *
+	 * @private
+	 */
+	private static deadlineOf(signal: AbortSignal): number | undefined {
+		let deadline: number | undefined;
+		const visited = new Set<AbortSignal>();
+		const stack = [signal];
+		while (stack.length > 0) {
+			const current = stack.pop()!;
+			if (visited.has(current)) {
+				continue;
 			}
+			visited.add(current);
+			const own = FuturableTask.signalDeadlines.get(current);
+			if (own !== undefined && (deadline === undefined || own < deadline)) {
+				deadline = own;
+			}
+			stack.push(...(FuturableTask.signalParents.get(current) || []));
 		}
+		return deadline;
+	}
 
-		return f;
+	/**
+	 * Returns a function computing the delay before each retry attempt (starting from 1)
+	 * with the given backoff strategy. The decorrelated-jitter strategy is stateful,
+	 * so a new function must be created for every run.
+	 *
+	 * @private
+	 */
+	private static backoffDelays({ delay = 0, backoff = "fixed", factor = 2, maxDelay = Infinity }: Omit<RetryOptions, "shouldRetry" | "onRetry">): (attempt: number) => number {
+		let previousDelay = delay;
+		return attempt => {
+			let next: number;
+			switch (backoff) {
+				case "linear":
+					next = delay * attempt;
+					break;
+				case "exponential":
+					next = delay * Math.pow(factor, attempt - 1);
+					break;
+				case "decorrelated-jitter":
+					next = delay + Math.random() * (previousDelay * 3 - delay);
+					break;
+				default:
+					next = delay;
+			}
+			previousDelay = Math.min(maxDelay, next);
+			return previousDelay;
+		};
+	}
+
+	/**
+	 * Parses a `Retry-After` header, given in seconds or as an HTTP date, into milliseconds.
+	 * Returns undefined if the header is missing or invalid.
+	 *
+	 * @private
+	 */
+	private static retryAfterOf(headers: Headers): number | undefined {
+		const header = headers.get("retry-after")?.trim();
+		if (!header) {
+			return undefined;
+		}
+		if (/^\d+$/.test(header)) {
+			return Number(header) * 1000;
+		}
+		const date = Date.parse(header);
+		return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+	}
+
+	/**
+	 * Wraps the executor so that a fresh value found in the store is used instead of executing
+	 * the task, and fulfilled results are written to the store along with the time they were
+	 * cached. A restored value keeps that time, so the `ttl` is not restarted on every restore.
+	 * Store failures, expired entries and values that cannot be deserialized are treated as
+	 * cache misses. The store is read only after the
+	 * deletion started by the last invalidate(), so that the dropped entry is never restored.
+	 *
+	 * @private
+	 */
+	private persistedExecutor({ store, key, serialize = JSON.stringify, deserialize = JSON.parse }: MemoizePersistOptions<T>): FuturableExecutor<T> {
+		return (resolve, reject, utils) => {
+			Promise.resolve(this.memoizeOptions.pendingDelete)
+				.then(() => store.get(key))
+				.catch(() => undefined)
+				.then(raw => {
+					if (raw !== undefined) {
+						try {
+							const { value, cachedAt }: PersistedMemoEntry = JSON.parse(raw);
+							const { ttl } = this.memoizeOptions;
+							if (typeof value === "string" && typeof cachedAt === "number" && (ttl === undefined || Date.now() - cachedAt < ttl)) {
+								const restored = deserialize(value);
+								FuturableTask.restoredAt.set(utils.signal, cachedAt);
+								resolve(restored);
+								return;
+							}
+						} catch {
+							// corrupted entry: execute the task
+						}
+					}
+					new Futurable<T>(this.executor, utils.signal)
+						.then(value => {
+							Promise.resolve()
+								.then(() => {
+									const entry: PersistedMemoEntry = { value: serialize(value), cachedAt: Date.now() };
+									return store.set(key, JSON.stringify(entry), this.memoizeOptions.ttl);
+								})
+								.catch(() => {});
+							resolve(value);
+						}, reject);
+				});
+		};
 	}
 
 	/**
@@ -454,6 +1366,18 @@ export class FuturableTask<T> {
 	 *
 	 * @example
 	 * ```typescript
+	 * // The error type is taken from the task's error channel
+	 * const task: FuturableTask<User, ApiError> = fetchUser(id);
+	 * const result = await task.runSafe();
+	 *
+	 * if (!result.success) {
+	 *   // result.error is typed as ApiError
+	 *   console.error('API Error:', result.error.statusCode);
+	 * }
+	 * ```
+	 *
+	 * @example
+	 * ```typescript
 	 * // With explicit error type
 	 * const task = FuturableTask.of(() => fetchUser(id));
 	 * const result = await task.runSafe<ApiError>();
@@ -489,8 +1413,8 @@ export class FuturableTask<T> {
 	 * controller.abort();
 	 * ```
 	 */
-	runSafe<E = unknown>(overrideSignal?: AbortSignal): Futurable<import('./Futurable').SafeResult<T, E>> {
-		return this.run(overrideSignal).safe<E>();
+	runSafe<E2 = E>(overrideSignal?: AbortSignal): Futurable<import('./Futurable').SafeResult<T, E2>> {
+		return this.run(overrideSignal).safe<E2>();
 	}
 
 	/**
@@ -502,11 +1426,18 @@ export class FuturableTask<T> {
 	 * IMPORTANT: The cached result is shared across all calls. If you need independent
 	 * executions, don't use memoize() or create a new memoized task for each use case.
 	 *
+	 * A `ttl` makes the cached result expire, so that long-lived tasks (configuration,
+	 * auth tokens...) refresh on a schedule. With `staleWhileRevalidate`, an expired result
+	 * keeps being served while a single background execution refreshes it; a failed refresh
+	 * never replaces the cached result. Use `invalidate()` to drop the cache manually and
+	 * `cacheAge` to inspect how old the cached result is.
+	 *
 	 * Returns a NEW FuturableTask (does not mutate the original).
 	 *
-	 * @param catchErrors - If true, caches the result even when the execution rejects.
-	 *                      If false (default), a rejection clears the cache and the next
-	 *                      run() will retry the operation.
+	 * @param catchErrorsOrConfig - Either the `catchErrors` flag or a MemoizeConfig object.
+	 *                              If catchErrors is true, caches the result even when the execution rejects.
+	 *                              If false (default), a rejection clears the cache and the next
+	 *                              run() will retry the operation.
 	 * @returns A new FuturableTask that caches its result
 	 *
 	 * @example
@@ -546,14 +1477,154 @@ export class FuturableTask<T> {
 	 *   await task.run(); // Returns cached error (doesn't retry)
 	 * } catch (err) {}
 	 * ```
+	 *
+	 * @example
+	 * ```typescript
+	 * // Refresh an auth token every 5 minutes without blocking callers
+	 * const token = FuturableTask.fetch('/auth/token')
+	 *   .map(res => res.json())
+	 *   .memoize({ ttl: 5 * 60_000, staleWhileRevalidate: true });
+	 *
+	 * await token.run();    // Fetches the token
+	 * await token.run();    // Cached
+	 * // ...5 minutes later
+	 * await token.run();    // Returns the old token and refreshes it in the background
+	 * console.log(token.cacheAge);
+	 * token.invalidate();   // Next run() fetches a new token
+	 * ```
 	 */
-	memoize(catchErrors?: boolean): FuturableTask<T> {
-		const newTask = new FuturableTask<T>(this.executor, this.signal);
+	memoize(catchErrorsOrConfig?: boolean | MemoizeConfig<T>): FuturableTask<T, E> {
+		const { catchErrors, ttl, staleWhileRevalidate, persist }: MemoizeConfig<T> = typeof catchErrorsOrConfig === "object"
+			? catchErrorsOrConfig
+			: { catchErrors: catchErrorsOrConfig };
+		const newTask = new FuturableTask<T, E>(this.executor, { signal: this.signal, rejectOnCancel: this.rejectOnCancelMode });
 		newTask.memoizeOptions.enabled = true;
 		newTask.memoizeOptions.catchErrors = catchErrors;
+		newTask.memoizeOptions.ttl = ttl;
+		newTask.memoizeOptions.staleWhileRevalidate = staleWhileRevalidate;
+		newTask.memoizeOptions.persist = persist;
+		return newTask;
+	}
+
+	/**
+	 * Creates a task whose executions reject with a CancellationError when cancelled,
+	 * instead of staying pending forever.
+	 *
+	 * Cancellation can come from task.cancel(), from the run's Futurable.cancel() or from
+	 * an aborted override signal; in every case the cancellation reason is available on
+	 * the error's `reason` property. Apply it last in a pipeline so that awaiting the
+	 * final task unwinds on cancellation.
+	 *
+	 * Returns a NEW FuturableTask (does not mutate the original).
+	 *
+	 * @returns A new FuturableTask that rejects on cancellation
+	 *
+	 * @example
+	 * ```typescript
+	 * const task = FuturableTask.fetch('/api/data')
+	 *   .map(res => res.json())
+	 *   .rejectOnCancel();
+	 *
+	 * const run = task.run();
+	 * task.cancel('Navigated away');
+	 *
+	 * try {
+	 *   await run;
+	 * } catch (err) {
+	 *   console.log(err instanceof CancellationError); // true
+	 *   console.log(err.reason); // 'Navigated away'
+	 * }
+	 * ```
+	 */
+	rejectOnCancel(): FuturableTask<T, E | CancellationError> {
+		const newTask = new FuturableTask<T, E | CancellationError>(this.executor, { signal: this.signal, rejectOnCancel: true });
+		newTask.memoizeOptions.enabled = this.memoizeOptions.enabled;
+		newTask.memoizeOptions.catchErrors = this.memoizeOptions.catchErrors;
+		newTask.memoizeOptions.ttl = this.memoizeOptions.ttl;
+		newTask.memoizeOptions.staleWhileRevalidate = this.memoizeOptions.staleWhileRevalidate;
+		newTask.memoizeOptions.persist = this.memoizeOptions.persist;
 		return newTask;
 	}
 
+	/**
+	 * Deduplicates concurrent executions: while an execution is in flight, every run() joins it
+	 * instead of starting a new one. Once it settles, the next run() starts a fresh execution.
+	 *
+	 * Unlike memoize(), results are never cached beyond the in-flight execution.
+	 *
+	 * Each run() returns its own Futurable, so subscribers can cancel independently. The shared
+	 * execution is reference counted: it is cancelled only when every subscriber has cancelled.
+	 *
+	 * Returns a NEW FuturableTask (does not mutate the original).
+	 *
+	 * @returns A new FuturableTask whose concurrent runs share one execution
+	 *
+	 * @example
+	 * ```typescript
+	 * const loadUser = FuturableTask.fetch('/api/me')
+	 *   .map(res => res.json())
+	 *   .share();
+	 *
+	 * // Ten components mounting at the same time issue a single request
+	 * const users = await Promise.all(components.map(() => loadUser.run()));
+	 *
+	 * // Later runs start a new request
+	 * await loadUser.run();
+	 * ```
+	 *
+	 * @example
+	 * ```typescript
+	 * // Reference counting
+	 * const a = loadUser.run();
+	 * const b = loadUser.run();
+	 *
+	 * a.cancel(); // The request keeps going for b
+	 * b.cancel(); // Last subscriber gone: the request is aborted
+	 * ```
+	 */
+	share(): FuturableTask<T, E> {
+		let shared: { execution: Futurable<T>, subscribers: number } | undefined;
+		return new FuturableTask<T, E>((res, rej, utils) => {
+			if (!shared) {
+				const execution = this.run();
+				const current = { execution, subscribers: 0 };
+				const release = () => {
+					if (shared === current) {
+						shared = undefined;
+					}
+				};
+				shared = current;
+				execution.then(release, release);
+			}
+			const current = shared;
+			current.subscribers++;
+			current.execution.then(res, rej);
+			utils.onCancel(() => {
+				current.subscribers--;
+				if (current.subscribers === 0) {
+					if (shared === current) {
+						shared = undefined;
+					}
+					current.execution.cancel(utils.signal.reason);
+				}
+			});
+		}, this.signal);
+	}
+
+	/**
+	 * Alias of share(): concurrent runs join the in-flight execution.
+	 *
+	 * @returns A new FuturableTask whose concurrent runs share one execution
+	 *
+	 * @example
+	 * ```typescript
+	 * const refreshToken = FuturableTask.of(() => requestNewToken()).singleFlight();
+	 * ```
+	 */
+	singleFlight(): FuturableTask<T, E> {
+		return this.share();
+	}
+
 	/**
 	 * Transforms the task's result value using a mapping function.
 	 *
@@ -599,8 +1670,8 @@ export class FuturableTask<T> {
 	 *   });
 	 * ```
 	 */
-	map<U>(fn: (data: T, signal?: AbortSignal) => U | Promise<U>): FuturableTask<U> {
-		return new FuturableTask<U>((res, rej, utils) => {
+	map<U>(fn: (data: T, signal?: AbortSignal) => U | Promise<U>): FuturableTask<U, E> {
+		return new FuturableTask<U, E>((res, rej, utils) => {
 			const f = this.run(utils.signal);
 			f.then(val => res(fn(val, utils.signal))).catch(rej);
 		}, this.signal);
@@ -652,8 +1723,8 @@ export class FuturableTask<T> {
 	 *   .run();
 	 * ```
 	 */
-	flatMap<U>(fn: (data: T) => FuturableTask<U>): FuturableTask<U> {
-		return new FuturableTask<U>((res, rej, utils) => {
+	flatMap<U, E2 = E>(fn: (data: T) => FuturableTask<U, E2>): FuturableTask<U, E | E2> {
+		return new FuturableTask<U, E | E2>((res, rej, utils) => {
 			this
 				.run(utils.signal)
 				.then(val => {
@@ -696,7 +1767,7 @@ export class FuturableTask<T> {
 	 *   .run();
 	 * ```
 	 */
-	andThen<U>(nextTask: FuturableTask<U>): FuturableTask<U> {
+	andThen<U, E2 = E>(nextTask: FuturableTask<U, E2>): FuturableTask<U, E | E2> {
 		return this.flatMap(() => nextTask);
 	}
 
@@ -742,7 +1813,7 @@ export class FuturableTask<T> {
 	 *   .run();
 	 * ```
 	 */
-	tap(fn: (data: T) => any): FuturableTask<T> {
+	tap(fn: (data: T) => any): FuturableTask<T, E> {
 		return this.map(async val => {
 			await fn(val);
 			return val;
@@ -790,8 +1861,8 @@ export class FuturableTask<T> {
 	 *   .run();
 	 * ```
 	 */
-	tapError(fn: (error: any) => any): FuturableTask<T> {
-		return new FuturableTask<T>((res, rej, utils) => {
+	tapError(fn: (error: E) => any): FuturableTask<T, E> {
+		return new FuturableTask<T, E>((res, rej, utils) => {
 			const task = this.run(utils.signal);
 			task
 				.then(res)
@@ -843,6 +1914,17 @@ export class FuturableTask<T> {
 	 *
 	 * @example
 	 * ```typescript
+	 * // Narrowing the error channel: NotFoundError is handled, NetworkError is rethrown
+	 * const task: FuturableTask<User, NotFoundError | NetworkError> = fetchUser();
+	 * const handled: FuturableTask<User | null, NetworkError> = task.catchError(err =>
+	 *   err instanceof NotFoundError
+	 *     ? FuturableTask.resolve(null)
+	 *     : FuturableTask.reject(err as NetworkError)
+	 * );
+	 * ```
+	 *
+	 * @example
+	 * ```typescript
 	 * // Type transformation on error
 	 * const task: FuturableTask<User> = fetchUser()
 	 *   .catchError((err): FuturableTask<User | null> => {
@@ -853,8 +1935,8 @@ export class FuturableTask<T> {
 	 *   });
 	 * ```
 	 */
-	catchError<U>(fallbackTask: (err: any) => FuturableTask<U>): FuturableTask<T | U> {
-		return new FuturableTask<T | U>((res, rej, utils) => {
+	catchError<U, E2 = never>(fallbackTask: (err: E) => FuturableTask<U, E2>): FuturableTask<T | U, E2> {
+		return new FuturableTask<T | U, E2>((res, rej, utils) => {
 			this
 				.run(utils.signal)
 				.then(res)
@@ -905,8 +1987,8 @@ export class FuturableTask<T> {
 	 *   .orElse(() => FuturableTask.of(() => fetchFromTertiary()));
 	 * ```
 	 */
-	orElse<U>(fallbackTask: (err: any) => FuturableTask<T | U>): FuturableTask<T | U> {
-		return new FuturableTask<T | U>((res, rej, utils) => {
+	orElse<U, E2 = never>(fallbackTask: (err: E) => FuturableTask<T | U, E2>): FuturableTask<T | U, E2> {
+		return new FuturableTask<T | U, E2>((res, rej, utils) => {
 			this
 				.run(utils.signal)
 				.then(res)
@@ -953,8 +2035,8 @@ export class FuturableTask<T> {
 	 * // Returns null instead of throwing on error
 	 * ```
 	 */
-	fallbackTo<U>(fallback: U): FuturableTask<T|U> {
-		return this.orElse(() => FuturableTask.resolve(fallback));
+	fallbackTo<U>(fallback: U): FuturableTask<T | U, never> {
+		return this.orElse<U>(() => FuturableTask.resolve<T | U>(fallback));
 	}
 
 	/**
@@ -1003,8 +2085,8 @@ export class FuturableTask<T> {
 	 *   .run();
 	 * ```
 	 */
-	ifElse<U>(condition: (value: T) => boolean | Promise<boolean>, onTrue: (value: T) => FuturableTask<U>, onFalse: (value: T) => FuturableTask<U>): FuturableTask<U> {
-		return new FuturableTask<U>((res, rej, utils) => {
+	ifElse<U, E2 = E>(condition: (value: T) => boolean | Promise<boolean>, onTrue: (value: T) => FuturableTask<U, E2>, onFalse: (value: T) => FuturableTask<U, E2>): FuturableTask<U, E | E2> {
+		return new FuturableTask<U, E | E2>((res, rej, utils) => {
 			this.run(utils.signal)
 				.then(async val => {
 					const shouldBranch = await condition(val);
@@ -1064,8 +2146,8 @@ export class FuturableTask<T> {
 	 * ).run();
 	 * ```
 	 */
-	fold<U>(onFailure: (err: any) => FuturableTask<U>, onSuccess: (value: T) => FuturableTask<U>): FuturableTask<U> {
-		return new FuturableTask<U>((res, rej, utils) => {
+	fold<U, E2 = never>(onFailure: (err: E) => FuturableTask<U, E2>, onSuccess: (value: T) => FuturableTask<U, E2>): FuturableTask<U, E2> {
+		return new FuturableTask<U, E2>((res, rej, utils) => {
 			this.run(utils.signal)
 				.then(val => {
 					onSuccess(val)
@@ -1125,8 +2207,8 @@ export class FuturableTask<T> {
 	 *   .run();
 	 * ```
 	 */
-	finally(callback: () => any): FuturableTask<T> {
-		return new FuturableTask((res, rej, utils) => {
+	finally(callback: () => any): FuturableTask<T, E> {
+		return new FuturableTask<T, E>((res, rej, utils) => {
 			this
 				.run(utils.signal)
 				.then(async val => {
@@ -1143,33 +2225,37 @@ export class FuturableTask<T> {
 	/**
 	 * Adds a timeout to the task execution.
 	 *
-	 * If the task doesn't complete within the specified time, it's cancelled
-	 * and the task rejects with the provided reason.
+	 * If the task doesn't complete within the specified time, the signal of the inner run is
+	 * aborted with a `TimeoutError` and the task rejects with that error (or with the provided reason).
 	 *
-	 * The timeout only applies when the task is run, not when it's created.
+	 * The timeout only applies when the task is run, not when it's created. It is propagated
+	 * as a deadline to nested tasks, so an inner `retry()` never waits past it.
 	 *
+	 * @template R - The type of the custom rejection reason, added to the task's error type
 	 * @param ms - Timeout duration in milliseconds
-	 * @param reason - Rejection reason (default: "TimeoutExceeded")
+	 * @param reason - Custom rejection reason (default: a `TimeoutError`)
 	 * @returns A new FuturableTask with timeout enforcement
 	 *
 	 * @example
 	 * ```typescript
 	 * const task = FuturableTask.of(() => fetch('/slow-api'))
-	 *   .timeout(5000, new Error('Request timed out after 5s'));
+	 *   .timeout(5000);
 	 *
 	 * try {
 	 *   await task.run();
 	 * } catch (err) {
-	 *   console.error(err); // "Request timed out after 5s"
+	 *   if (err instanceof TimeoutError) {
+	 *     console.error(`Timed out after ${err.elapsed}ms`);
+	 *   }
 	 * }
 	 * ```
 	 *
 	 * @example
 	 * ```typescript
-	 * // Timeout with default reason
+	 * // Timeout with a custom reason
 	 * await FuturableTask.of(() => longOperation())
-	 *   .timeout(3000)
-	 *   .run(); // Rejects with "TimeoutExceeded" after 3s
+	 *   .timeout(3000, new Error('Request timed out after 3s'))
+	 *   .run(); // Rejects with the custom error after 3s
 	 * ```
 	 *
 	 * @example
@@ -1181,18 +2267,83 @@ export class FuturableTask<T> {
 	 *   .run();
 	 * // Each attempt has a 5s timeout
 	 * ```
+	 *
+	 * @example
+	 * ```typescript
+	 * // Retrying inside a timeout: backoff sleeps never exceed the overall 10s budget
+	 * const result = await FuturableTask.of(() => fetchData())
+	 *   .retry(5, { delay: 1000, backoff: 'exponential' })
+	 *   .timeout(10_000)
+	 *   .run();
+	 * ```
 	 */
-	timeout(ms: number, reason: any = "TimeoutExceeded"): FuturableTask<T> {
-		return new FuturableTask<T>((res, rej, utils) => {
+	timeout(ms: number): FuturableTask<T, E | TimeoutError>;
+	timeout<R>(ms: number, reason: R): FuturableTask<T, E | R>;
+	timeout<R>(ms: number, reason?: R): FuturableTask<T, E | R | TimeoutError> {
+		return this.limitTime(start => start + ms, reason);
+	}
+
+	/**
+	 * Rejects the task with a `TimeoutError` if it is still running at the given absolute deadline.
+	 *
+	 * Like `timeout()`, the signal of the inner run is aborted when the deadline passes.
+	 * The deadline is propagated to nested tasks: an inner `retry()` that would sleep past it
+	 * gives up immediately and rejects with the last error instead.
+	 *
+	 * @param deadline - A Date or a timestamp in epoch milliseconds
+	 * @returns A new FuturableTask bounded by the deadline
+	 *
+	 * @example
+	 * ```typescript
+	 * // The whole request handling must finish before the client gives up
+	 * const deadline = new Date(Date.now() + 2000);
+	 * const profile = await FuturableTask.fetch('/api/profile')
+	 *   .retry(3, { delay: 500 })
+	 *   .withDeadline(deadline)
+	 *   .run();
+	 * ```
+	 *
+	 * @example
+	 * ```typescript
+	 * // Nested tasks share the tightest deadline
+	 * const task = FuturableTask.of(() => loadUser())
+	 *   .flatMap(user => loadOrders(user.id).retry(10, 1000))
+	 *   .withDeadline(requestDeadline);
+	 * ```
+	 */
+	withDeadline(deadline: Date | number): FuturableTask<T, E | TimeoutError> {
+		const at = deadline instanceof Date ? deadline.getTime() : deadline;
+		return this.limitTime(() => at);
+	}
+
+	/**
+	 * Runs this task bounded by a deadline computed from the start time of each run.
+	 * The deadline is attached to the signal of the inner run, which is aborted
+	 * with a TimeoutError when it passes.
+	 *
+	 * @private
+	 */
+	private limitTime<R>(deadlineFrom: (start: number) => number, reason?: R): FuturableTask<T, E | R | TimeoutError> {
+		return new FuturableTask<T, E | R | TimeoutError>((res, rej, utils) => {
+			const start = Date.now();
+			const deadline = deadlineFrom(start);
+			const inner = new AbortController();
+			if (utils.signal.aborted) {
+				inner.abort(utils.signal.reason);
+			} else {
+				utils.signal.addEventListener("abort", () => inner.abort(utils.signal.reason), { once: true });
+			}
+			FuturableTask.linkSignal(inner.signal, [utils.signal], deadline);
+
 			const timer = setTimeout(() => {
-				f.cancel();
-				rej(reason);
-			}, ms);
-			const f = this.run(utils.signal);
+				const error = new TimeoutError(Math.max(0, deadline - start), Date.now() - start, deadline);
+				inner.abort(error);
+				rej(reason === undefined ? error : reason);
+			}, Math.max(0, deadline - start));
 			utils.onCancel(() => {
 				clearTimeout(timer);
 			});
-			f
+			this.run(inner.signal)
 				.then(val => {
 					clearTimeout(timer);
 					res(val);
@@ -1241,8 +2392,8 @@ export class FuturableTask<T> {
 	 * task.cancel(); // Cancels before the delay completes
 	 * ```
 	 */
-	delay(ms: number): FuturableTask<T> {
-		return new FuturableTask<T>(async (res, rej, utils) => {
+	delay(ms: number): FuturableTask<T, E> {
+		return new FuturableTask<T, E>(async (res, rej, utils) => {
 			await utils.sleep(ms);
 			this.run(utils.signal)
 				.then(res)
@@ -1256,10 +2407,17 @@ export class FuturableTask<T> {
 	 * Each retry is an independent execution of the original task.
 	 * If all attempts fail, the last error is propagated.
 	 *
-	 * An optional delay can be added between retries for exponential backoff patterns.
+	 * The second argument can be a fixed delay between retries in milliseconds, or a
+	 * RetryOptions object to configure a backoff strategy (fixed, linear, exponential or
+	 * decorrelated jitter), a maximum delay, a `shouldRetry` predicate and an `onRetry` hook.
+	 *
+	 * Waiting between attempts is bound to the execution signal: cancelling the task
+	 * during a backoff sleep stops it immediately, without further attempts.
+	 * When the run is bounded by `timeout()` or `withDeadline()`, a backoff sleep that would
+	 * end past the deadline is skipped and the last error is propagated immediately.
 	 *
 	 * @param retries - Maximum number of retry attempts (0 means 1 total attempt)
-	 * @param delayMs - Optional delay between retries in milliseconds (default: 0)
+	 * @param delayOrOptions - Delay between retries in milliseconds (default: 0), or retry options
 	 * @returns A new FuturableTask with retry logic
 	 *
 	 * @example
@@ -1280,24 +2438,56 @@ export class FuturableTask<T> {
 	 *
 	 * @example
 	 * ```typescript
-	 * // Exponential backoff (manual)
-	 * let attempt = 0;
+	 * // Exponential backoff capped at 10s, skipping client errors
 	 * const task = FuturableTask.of(() => fetch('/api'))
-	 *   .tapError(() => attempt++)
-	 *   .retry(3, Math.pow(2, attempt) * 1000);
+	 *   .retry(5, {
+	 *     delay: 500,
+	 *     backoff: 'exponential',
+	 *     maxDelay: 10000,
+	 *     shouldRetry: (error) => !(error instanceof ValidationError),
+	 *     onRetry: (error, attempt, delay) => logger.warn(`Retry #${attempt} in ${delay}ms`, error)
+	 *   });
+	 * // Delays: 500ms, 1s, 2s, 4s, 8s
 	 * ```
 	 */
-	retry(retries: number, delayMs: number = 0): FuturableTask<T> {
-		return new FuturableTask<T>(async (res, rej, utils) => {
+	retry(retries: number, delayOrOptions: number | RetryOptions<E> = 0): FuturableTask<T, E> {
+		const {
+			shouldRetry,
+			onRetry,
+			...backoffOptions
+		}: RetryOptions<E> = typeof delayOrOptions === "number" ? { delay: delayOrOptions } : delayOrOptions;
+
+		return new FuturableTask<T, E>(async (res, rej, utils) => {
 			let lastError: any;
+			const computeDelay = FuturableTask.backoffDelays(backoffOptions);
+
 			for (let i = 0; i <= retries; i++) {
 				if (utils.signal.aborted) return;
 				try {
 					return res(await this.run(utils.signal));
-				} catch (error) {
+				} catch (caught) {
+					const error = caught as E;
 					lastError = error;
 					if (i < retries && !utils.signal.aborted) {
-						delayMs > 0 && await utils.sleep(delayMs);
+						const attempt = i + 1;
+						try {
+							if (shouldRetry && !(await shouldRetry(error, attempt))) {
+								break;
+							}
+						} catch (predicateError) {
+							return rej(predicateError);
+						}
+						const waitMs = computeDelay(attempt);
+						const deadline = FuturableTask.deadlineOf(utils.signal);
+						if (deadline !== undefined && Date.now() + waitMs >= deadline) {
+							break;
+						}
+						try {
+							onRetry?.(error, attempt, waitMs);
+						} catch (hookError) {
+							return rej(hookError);
+						}
+						waitMs > 0 && await utils.sleep(waitMs);
 					}
 				}
 			}
@@ -1306,7 +2496,101 @@ export class FuturableTask<T> {
 	}
 
 	/**
-	 * Creates a new Task that delays the execution of the original task with debounce logic.
+	 * Retries an HTTP task on retryable statuses and network failures.
+	 *
+	 * Unlike `retry()`, which only sees rejections, this also inspects resolved responses:
+	 * `FuturableTask.fetch` resolves on 500s and 429s, so a resolved Response with a status in
+	 * `statusCodes` is retried too, as is an HttpError rejection (from the fetchJson() helpers
+	 * or an HTTP client) carrying one. When the retries are exhausted, the last response or
+	 * error is delivered as is.
+	 *
+	 * - A `Retry-After` header (seconds or HTTP date) replaces the backoff delay.
+	 * - Requests with a non-idempotent method (POST, PATCH) are never retried unless `retryNonIdempotent` is set.
+	 *   The method is the one `FuturableTask.fetch` and the other fetch helpers record on the task they create;
+	 *   on any other task (e.g. after `map()`) it is unknown and must be passed as `method`, or nothing is retried.
+	 * - The body of every discarded response is cancelled, releasing the connection.
+	 * - Like `retry()`, sleeps are cancellable and never end past a `timeout()` or `withDeadline()` deadline.
+	 *
+	 * @param retries - Maximum number of retry attempts (0 means 1 total attempt)
+	 * @param options - Retry options
+	 * @returns A new FuturableTask with status-aware retry logic
+	 *
+	 * @example
+	 * ```typescript
+	 * const users = await FuturableTask.fetch('/api/users')
+	 *   .retryHttp(3, { delay: 500, backoff: 'exponential' })
+	 *   .map(res => res.json())
+	 *   .run();
+	 * ```
+	 *
+	 * @example
+	 * ```typescript
+	 * // POST is retried only when the endpoint is known to be safe to repeat
+	 * const order = FuturableTask.fetchJson('/api/orders', { method: 'POST', body, headers: { 'Idempotency-Key': key } })
+	 *   .retryHttp(2, { retryNonIdempotent: true, statusCodes: [503] });
+	 * ```
+	 */
+	retryHttp(retries: number, {
+		statusCodes = FuturableTask.retryableStatuses,
+		networkErrors = true,
+		method = this.requestMethod,
+		retryNonIdempotent = false,
+		maxRetryAfter = Infinity,
+		onRetry,
+		...backoffOptions
+	}: RetryHttpOptions = {}): FuturableTask<T, E> {
+		const retryable = retryNonIdempotent
+			|| (method !== undefined && ["GET", "HEAD", "OPTIONS", "PUT", "DELETE", "TRACE"].includes(method.toUpperCase()));
+
+		return new FuturableTask<T, E>(async (res, rej, utils) => {
+			const computeDelay = FuturableTask.backoffDelays(backoffOptions);
+
+			for (let attempt = 1; ; attempt++) {
+				let outcome: { value: T } | { error: unknown };
+				try {
+					outcome = { value: await this.run(utils.signal) };
+				} catch (error) {
+					outcome = { error };
+				}
+				if (utils.signal.aborted) {
+					return;
+				}
+
+				const reason = "value" in outcome ? outcome.value : outcome.error;
+				const failed = reason instanceof Response || reason instanceof HttpError
+					? statusCodes.includes(reason.status)
+					: "error" in outcome && networkErrors && reason instanceof TypeError;
+				const retryAfter = reason instanceof Response || reason instanceof HttpError
+					? FuturableTask.retryAfterOf(reason.headers)
+					: undefined;
+				const waitMs = retryAfter ?? computeDelay(attempt);
+				const deadline = FuturableTask.deadlineOf(utils.signal);
+
+				if (
+					!retryable
+					|| !failed
+					|| attempt > retries
+					|| (retryAfter !== undefined && retryAfter > maxRetryAfter)
+					|| (deadline !== undefined && Date.now() + waitMs >= deadline)
+				) {
+					return "value" in outcome ? res(outcome.value) : rej(outcome.error);
+				}
+
+				if (reason instanceof Response && !reason.bodyUsed) {
+					reason.body?.cancel().catch(() => { });
+				}
+				try {
+					onRetry?.(reason, attempt, waitMs);
+				} catch (hookError) {
+					return rej(hookError);
+				}
+				waitMs > 0 && await utils.sleep(waitMs);
+			}
+		}, this.signal);
+	}
+
+	/**
+	 * Creates a new Task that delays the execution of the original task with debounce logic.
 	 *
 	 * This method implements "smart debounce":
 	 * - If called on a regular Task, it wraps it with a delay
@@ -1350,11 +2634,11 @@ export class FuturableTask<T> {
 	 * task.cancel(); // Cancels the pending execution
 	 * ```
 	 */
-	debounce(ms: number): FuturableTask<T> {
+	debounce(ms: number): FuturableTask<T, E> {
 		const source = this.sourceTask ?? this;
 		let timeoutId: ReturnType<typeof setTimeout> | null = null;
 
-		const newTask = new FuturableTask<T>((res, rej, utils) => {
+		const newTask = new FuturableTask<T, E>((res, rej, utils) => {
 			utils.onCancel(() => {
 				timeoutId && clearTimeout(timeoutId);
 				timeoutId = null;
@@ -1419,10 +2703,10 @@ export class FuturableTask<T> {
 	 * setInterval(() => monitor.run(), 100); // Collects every 5s despite 100ms interval
 	 * ```
 	 */
-	throttle(ms: number): FuturableTask<T> {
+	throttle(ms: number): FuturableTask<T, E> {
 		let lastRun = 0;
 		let lastResult: Futurable<T>;
-		return new FuturableTask<T>((res, rej, utils) => {
+		return new FuturableTask<T, E>((res, rej, utils) => {
 			const now = Date.now();
 			if (now - lastRun >= ms || !lastResult) {
 				lastRun = now;
@@ -1477,8 +2761,8 @@ export class FuturableTask<T> {
 	 * }
 	 * ```
 	 */
-	zip<U>(other: FuturableTask<U>): FuturableTask<[T, U]> {
-		return new FuturableTask<[T, U]>((res, rej, utils) => {
+	zip<U, E2 = E>(other: FuturableTask<U, E2>): FuturableTask<[T, U], E | E2> {
+		return new FuturableTask<[T, U], E | E2>((res, rej, utils) => {
 			Futurable.all(
 				[
 					this.run(utils.signal),
@@ -1528,7 +2812,7 @@ export class FuturableTask<T> {
 	 * ).run();
 	 * ```
 	 */
-	zipWith<U, R>(other: FuturableTask<U>, fn: (a: T, b: U) => R): FuturableTask<R> {
+	zipWith<U, R, E2 = E>(other: FuturableTask<U, E2>, fn: (a: T, b: U) => R): FuturableTask<R, E | E2> {
 		return this.zip(other).map(([a, b]) => fn(a, b));
 	}
 
@@ -1576,8 +2860,8 @@ export class FuturableTask<T> {
 	 * ).run();
 	 * ```
 	 */
-	bimap<U, V>(onSuccess: (value: T) => U, onError: (error: any) => V): FuturableTask<U> {
-		return new FuturableTask<U>((res, rej, utils) => {
+	bimap<U, V>(onSuccess: (value: T) => U, onError: (error: E) => V): FuturableTask<U, V> {
+		return new FuturableTask<U, V>((res, rej, utils) => {
 			this.run(utils.signal)
 				.then(val => res(onSuccess(val)))
 				.catch(err => rej(onError(err)));
@@ -1617,7 +2901,7 @@ export class FuturableTask<T> {
 	 *   .run();
 	 * ```
 	 */
-	repeat(n: number): FuturableTask<T[]> {
+	repeat(n: number): FuturableTask<T[], E> {
 		return FuturableTask.times(n, () => this);
 	}
 
@@ -1667,67 +2951,67 @@ export class FuturableTask<T> {
 	 * );
 	 * ```
 	 */
-	pipe<A>(f1: (t: FuturableTask<T>) => A): A;
-	pipe<A, B>(
-		f1: (t: FuturableTask<T>) => A,
-		f2: (a: A) => B
-	): B;
-	pipe<A, B, C>(
-		f1: (t: FuturableTask<T>) => A,
-		f2: (a: A) => B,
-		f3: (b: B) => C
-	): C;
-	pipe<A, B, C, D>(
-		f1: (t: FuturableTask<T>) => A,
-		f2: (a: A) => B,
-		f3: (b: B) => C,
-		f4: (c: C) => D
-	): D;
-	pipe<A, B, C, D, E>(
-		f1: (t: FuturableTask<T>) => A,
-		f2: (a: A) => B,
-		f3: (b: B) => C,
-		f4: (c: C) => D,
-		f5: (d: D) => E
-	): E;
-	pipe<A, B, C, D, E, F>(
-		f1: (t: FuturableTask<T>) => A,
-		f2: (a: A) => B,
-		f3: (b: B) => C,
-		f4: (c: C) => D,
-		f5: (d: D) => E,
-		f6: (e: E) => F
-	): F;
-	pipe<A, B, C, D, E, F, G>(
-		f1: (t: FuturableTask<T>) => A,
-		f2: (a: A) => B,
-		f3: (b: B) => C,
-		f4: (c: C) => D,
-		f5: (d: D) => E,
-		f6: (e: E) => F,
-		f7: (f: F) => G
-	): G;
-	pipe<A, B, C, D, E, F, G, H>(
-		f1: (t: FuturableTask<T>) => A,
-		f2: (a: A) => B,
-		f3: (b: B) => C,
-		f4: (c: C) => D,
-		f5: (d: D) => E,
-		f6: (e: E) => F,
-		f7: (f: F) => G,
-		f8: (g: G) => H
-	): H;
-	pipe<A, B, C, D, E, F, G, H, I>(
-		f1: (t: FuturableTask<T>) => A,
-		f2: (a: A) => B,
-		f3: (b: B) => C,
-		f4: (c: C) => D,
-		f5: (d: D) => E,
-		f6: (e: E) => F,
-		f7: (f: F) => G,
-		f8: (g: G) => H,
-		f9: (h: H) => I
-	): I;
+	pipe<R1>(f1: (t: FuturableTask<T, E>) => R1): R1;
+	pipe<R1, R2>(
+		f1: (t: FuturableTask<T, E>) => R1,
+		f2: (a: R1) => R2
+	): R2;
+	pipe<R1, R2, R3>(
+		f1: (t: FuturableTask<T, E>) => R1,
+		f2: (a: R1) => R2,
+		f3: (b: R2) => R3
+	): R3;
+	pipe<R1, R2, R3, R4>(
+		f1: (t: FuturableTask<T, E>) => R1,
+		f2: (a: R1) => R2,
+		f3: (b: R2) => R3,
+		f4: (c: R3) => R4
+	): R4;
+	pipe<R1, R2, R3, R4, R5>(
+		f1: (t: FuturableTask<T, E>) => R1,
+		f2: (a: R1) => R2,
+		f3: (b: R2) => R3,
+		f4: (c: R3) => R4,
+		f5: (d: R4) => R5
+	): R5;
+	pipe<R1, R2, R3, R4, R5, R6>(
+		f1: (t: FuturableTask<T, E>) => R1,
+		f2: (a: R1) => R2,
+		f3: (b: R2) => R3,
+		f4: (c: R3) => R4,
+		f5: (d: R4) => R5,
+		f6: (e: R5) => R6
+	): R6;
+	pipe<R1, R2, R3, R4, R5, R6, R7>(
+		f1: (t: FuturableTask<T, E>) => R1,
+		f2: (a: R1) => R2,
+		f3: (b: R2) => R3,
+		f4: (c: R3) => R4,
+		f5: (d: R4) => R5,
+		f6: (e: R5) => R6,
+		f7: (f: R6) => R7
+	): R7;
+	pipe<R1, R2, R3, R4, R5, R6, R7, R8>(
+		f1: (t: FuturableTask<T, E>) => R1,
+		f2: (a: R1) => R2,
+		f3: (b: R2) => R3,
+		f4: (c: R3) => R4,
+		f5: (d: R4) => R5,
+		f6: (e: R5) => R6,
+		f7: (f: R6) => R7,
+		f8: (g: R7) => R8
+	): R8;
+	pipe<R1, R2, R3, R4, R5, R6, R7, R8, R9>(
+		f1: (t: FuturableTask<T, E>) => R1,
+		f2: (a: R1) => R2,
+		f3: (b: R2) => R3,
+		f4: (c: R3) => R4,
+		f5: (d: R4) => R5,
+		f6: (e: R5) => R6,
+		f7: (f: R6) => R7,
+		f8: (g: R7) => R8,
+		f9: (h: R8) => R9
+	): R9;
 	pipe(...fns: Array<(arg: any) => any>): any {
 		return fns.reduce((prev, fn) => fn(prev), this);
 	}
@@ -1749,7 +3033,7 @@ export class FuturableTask<T> {
 	 * ```
 	 */
 	fetch(url: string | ((val: T) => string), opts?: RequestInit | ((val: T) => RequestInit)): FuturableTask<Response> {
-		return new FuturableTask<Response>((res, rej, utils) => {
+		return FuturableTask.withMethod(opts, new FuturableTask<Response>((res, rej, utils) => {
 			this.run(utils.signal)
 				.then(val => {
 					const urlFetch = typeof url === "function" ? url(val) : url;
@@ -1763,7 +3047,96 @@ export class FuturableTask<T> {
 						.catch(rej);
 				})
 				.catch(rej);
-		}, this.signal);
+		}, this.signal));
+	}
+
+	/**
+	 * Creates a new FuturableTask that performs an HTTP fetch and parses the response body as JSON.
+	 * Non-2xx responses reject with an HttpError carrying the status, headers and parsed body.
+	 *
+	 * @template U - The type of the parsed body
+	 * @param url - URL to fetch, or a function receiving the task's value
+	 * @param opts - Fetch options, or a function receiving the task's value
+	 * @param validate - Optional type guard checking the parsed body at runtime
+	 * @returns A new FuturableTask that resolves with the parsed body
+	 *
+	 * @example
+	 * ```typescript
+	 * const posts = FuturableTask.fetchJson<User>('/api/me')
+	 *   .fetchJson<Post[]>(user => `/api/users/${user.id}/posts`);
+	 * ```
+	 */
+	fetchJson<U = unknown>(url: string | ((val: T) => string), opts?: RequestInit | ((val: T) => RequestInit), validate?: FuturableResponseValidator<U>): FuturableTask<U> {
+		return this.fetchWith(url, opts, (urlFetch, optsFetch) => Futurable.fetchJson(urlFetch, optsFetch, validate));
+	}
+
+	/**
+	 * Creates a new FuturableTask that performs an HTTP fetch and reads the response body as text.
+	 * Non-2xx responses reject with an HttpError carrying the status, headers and parsed body.
+	 *
+	 * @param url - URL to fetch, or a function receiving the task's value
+	 * @param opts - Fetch options, or a function receiving the task's value
+	 * @returns A new FuturableTask that resolves with the body text
+	 *
+	 * @example
+	 * ```typescript
+	 * const readme = FuturableTask.resolve('README.md')
+	 *   .fetchText(file => `/docs/${file}`);
+	 * ```
+	 */
+	fetchText(url: string | ((val: T) => string), opts?: RequestInit | ((val: T) => RequestInit)): FuturableTask<string> {
+		return this.fetchWith(url, opts, Futurable.fetchText);
+	}
+
+	/**
+	 * Creates a new FuturableTask that performs an HTTP fetch and reads the response body as a Blob.
+	 * Non-2xx responses reject with an HttpError carrying the status, headers and parsed body.
+	 *
+	 * @param url - URL to fetch, or a function receiving the task's value
+	 * @param opts - Fetch options, or a function receiving the task's value
+	 * @returns A new FuturableTask that resolves with the body Blob
+	 *
+	 * @example
+	 * ```typescript
+	 * const avatar = FuturableTask.fetchJson<User>('/api/me')
+	 *   .fetchBlob(user => user.avatarUrl);
+	 * ```
+	 */
+	fetchBlob(url: string | ((val: T) => string), opts?: RequestInit | ((val: T) => RequestInit)): FuturableTask<Blob> {
+		return this.fetchWith(url, opts, Futurable.fetchBlob);
+	}
+
+	/**
+	 * Runs this task, then performs a request built from its value, linked to the run's signal.
+	 *
+	 * @private
+	 */
+	private fetchWith<U>(url: string | ((val: T) => string), opts: RequestInit | ((val: T) => RequestInit) | undefined, request: (url: string, opts: RequestInit) => Futurable<U>): FuturableTask<U> {
+		return FuturableTask.withMethod(opts, new FuturableTask<U>((res, rej, utils) => {
+			this.run(utils.signal)
+				.then(val => {
+					const urlFetch = typeof url === "function" ? url(val) : url;
+					const optsFetch = {
+						...(typeof opts === "function" ? opts(val) : opts),
+						signal: utils.signal
+					};
+
+					request(urlFetch, optsFetch)
+						.then(res)
+						.catch(rej);
+				})
+				.catch(rej);
+		}, this.signal));
+	}
+
+	/**
+	 * Records the request method on a fetch task, when the options are known upfront.
+	 *
+	 * @private
+	 */
+	private static withMethod<U>(opts: RequestInit | ((val: any) => RequestInit) | undefined, task: FuturableTask<U>): FuturableTask<U> {
+		typeof opts !== "function" && (task.requestMethod = (opts?.method ?? "GET").toUpperCase());
+		return task;
 	}
 
 	/**
@@ -1858,8 +3231,8 @@ export class FuturableTask<T> {
 	 *   : FuturableTask.resolve(defaultData);
 	 * ```
 	 */
-	static resolve<U = any>(v: U, signal?: AbortSignal): FuturableTask<U> {
-		return FuturableTask.of(v, signal);
+	static resolve<U = any>(v: U, signal?: AbortSignal): FuturableTask<U, never> {
+		return FuturableTask.of(v, signal) as FuturableTask<U, never>;
 	}
 
 	/**
@@ -1893,8 +3266,8 @@ export class FuturableTask<T> {
 	 *   .tapError(err => assert(err.message === 'Test error'));
 	 * ```
 	 */
-	static reject<U = never>(reason: any, signal?: AbortSignal): FuturableTask<U> {
-		return new FuturableTask((_, rej) => rej(reason), signal);
+	static reject<U = never, E = any>(reason: E, signal?: AbortSignal): FuturableTask<U, E> {
+		return new FuturableTask<U, E>((_, rej) => rej(reason), signal);
 	}
 
 	/**
@@ -2006,8 +3379,8 @@ export class FuturableTask<T> {
 	 * const users = await FuturableTask.all(tasks).run();
 	 * ```
 	 */
-	static all<T>(tasks: FuturableTask<T>[], signal?: AbortSignal): FuturableTask<T[]> {
-		return new FuturableTask<T[]>((res, rej, utils) => {
+	static all<T, E = unknown>(tasks: FuturableTask<T, E>[], signal?: AbortSignal): FuturableTask<T[], E> {
+		return new FuturableTask<T[], E>((res, rej, utils) => {
 			Futurable
 				.all(tasks.map(t => t.run(utils.signal)), utils.signal)
 				.then(res)
@@ -2114,8 +3487,8 @@ export class FuturableTask<T> {
 	 * ]).run(); // Uses cache if available, API otherwise
 	 * ```
 	 */
-	static race<T>(tasks: FuturableTask<T>[], signal?: AbortSignal): FuturableTask<T> {
-		return new FuturableTask((res, rej, utils) => {
+	static race<T, E = unknown>(tasks: FuturableTask<T, E>[], signal?: AbortSignal): FuturableTask<T, E> {
+		return new FuturableTask<T, E>((res, rej, utils) => {
 			Futurable
 				.race(tasks.map(t => t.run(utils.signal)), utils.signal)
 				.then(res)
@@ -2170,8 +3543,8 @@ export class FuturableTask<T> {
 	 * }
 	 * ```
 	 */
-	static any<T>(tasks: FuturableTask<T>[], signal?: AbortSignal): FuturableTask<T> {
-		return new FuturableTask((res, rej, utils) => {
+	static any<T>(tasks: FuturableTask<T, unknown>[], signal?: AbortSignal): FuturableTask<T, AggregateError> {
+		return new FuturableTask<T, AggregateError>((res, rej, utils) => {
 			Futurable
 				.any(tasks.map(t => t.run(utils.signal)), utils.signal)
 				.then(res)
@@ -2333,8 +3706,8 @@ export class FuturableTask<T> {
 	 * await FuturableTask.sequence(steps).run();
 	 * ```
 	 */
-	static sequence<T>(tasks: FuturableTask<T>[], signal?: AbortSignal): FuturableTask<T[]> {
-		return new FuturableTask<T[]>(async (res, rej, utils) => {
+	static sequence<T, E = unknown>(tasks: FuturableTask<T, E>[], signal?: AbortSignal): FuturableTask<T[], E> {
+		return new FuturableTask<T[], E>(async (res, rej, utils) => {
 			const results: T[] = [];
 			try {
 				for (const t of tasks) {
@@ -2393,8 +3766,8 @@ export class FuturableTask<T> {
 	 * }
 	 * ```
 	 */
-	static parallel<T>(tasks: FuturableTask<T>[], limit = 5, signal?: AbortSignal): FuturableTask<T[]> {
-		return new FuturableTask<T[]>(async (res, rej, utils) => {
+	static parallel<T, E = unknown>(tasks: FuturableTask<T, E>[], limit = 5, signal?: AbortSignal): FuturableTask<T[], E> {
+		return new FuturableTask<T[], E>(async (res, rej, utils) => {
 			const results: T[] = new Array(tasks.length);
 			const runningTasks: Futurable<T>[] = [];
 			let running = 0,
@@ -2436,7 +3809,13 @@ export class FuturableTask<T> {
 	 * of concurrent executions for a set of Tasks.
 	 *
 	 * Tasks do not enter the queue or increment the running counter until
-	 * their .run() method is explicitly called. Tasks are processed FIFO.
+	 * their .run() method is explicitly called. Queued tasks are dispatched by
+	 * priority (highest first) and FIFO among tasks with the same priority.
+	 *
+	 * Each task occupies `weight` slots of the concurrency (1 by default), so a heavy
+	 * task can reserve a larger share of the limiter. When the task at the head of
+	 * the queue does not fit in the free slots, dispatching waits for running tasks
+	 * to finish instead of skipping it.
 	 *
 	 * Optional event hooks allow tracking active tasks, completions, errors, and idle states.
 	 *
@@ -2450,115 +3829,922 @@ export class FuturableTask<T> {
 	 *
 	 * @example
 	 * ```typescript
-	 * const limiter = FuturableTask.createLimiter(2, {
-	 *   onActive: (task) => console.log('Task started'),
-	 *   onCompleted: (result) => console.log('Task completed:', result),
-	 *   onIdle: () => console.log('All tasks finished!')
+	 * const limiter = FuturableTask.createLimiter(2, {
+	 *   onActive: (task) => console.log('Task started'),
+	 *   onCompleted: (result) => console.log('Task completed:', result),
+	 *   onIdle: () => console.log('All tasks finished!')
+	 * });
+	 *
+	 * // Wrap your original tasks
+	 * const tasks = [1,2,3,4,5].map(i => limiter(
+	 *   FuturableTask.of(async () => {
+	 *     await delay(1000);
+	 *     return i;
+	 *   })
+	 * ));
+	 *
+	 * // Execution starts here, respects limit of 2
+	 * const results = await FuturableTask.all(tasks).run();
+	 * console.log(results); // [1, 2, 3, 4, 5]
+	 * ```
+	 *
+	 * @example
+	 * ```typescript
+	 * // Monitoring limiter state
+	 * const limiter = FuturableTask.createLimiter(3);
+	 *
+	 * console.log(limiter.concurrency);  // 3
+	 * console.log(limiter.activeCount);  // 0
+	 * console.log(limiter.pendingCount); // 0
+	 *
+	 * const task = limiter(FuturableTask.of(() => operation()));
+	 * task.run();
+	 *
+	 * console.log(limiter.activeCount);  // 1
+	 * ```
+	 *
+	 * @example
+	 * ```typescript
+	 * // Priorities and weights
+	 * const limiter = FuturableTask.createLimiter(5);
+	 *
+	 * const exportTask = limiter(FuturableTask.of(() => bulkExport()), { weight: 3 });
+	 * const syncTask = limiter(FuturableTask.of(() => backgroundSync()), { priority: -1 });
+	 * const userTask = limiter(FuturableTask.of(() => loadProfile()), { priority: 10 });
+	 * ```
+	 *
+	 * @example
+	 * ```typescript
+	 * // Adaptive concurrency
+	 * const limiter = FuturableTask.createLimiter(4);
+	 *
+	 * const tracked = (task) => limiter(task.tap(() => {
+	 *   limiter.concurrency = latency() > 500
+	 *     ? Math.max(1, limiter.concurrency - 1)
+	 *     : limiter.concurrency + 1;
+	 * }));
+	 * ```
+	 *
+	 * @example
+	 * ```typescript
+	 * // Pausing, draining and clearing
+	 * const limiter = FuturableTask.createLimiter(2);
+	 *
+	 * limiter.pause();           // queued tasks wait, running ones finish
+	 * limiter.resume();          // dispatching continues
+	 * await limiter.onIdle();    // resolves once nothing is queued or running
+	 * limiter.clear('shutdown'); // cancels every task still waiting in the queue
+	 * ```
+	 *
+	 * @example
+	 * ```typescript
+	 * // API rate limiting
+	 * const apiLimiter = FuturableTask.createLimiter(5, {
+	 *   onError: (err) => logger.error('API call failed', err)
+	 * });
+	 *
+	 * const fetchUser = (id) => apiLimiter(
+	 *   FuturableTask.of(() => fetch(`/api/users/${id}`))
+	 * );
+	 *
+	 * const users = await FuturableTask.all(
+	 *   userIds.map(fetchUser)
+	 * ).run();
+	 * ```
+	 */
+	static createLimiter(concurrency: number, events: LimiterEvents = {}, signal?: AbortSignal): FuturableTaskLimiter {
+		let running = 0;
+		let usedSlots = 0;
+		let paused = false;
+		let hadPending = false;
+		const queue: { execute: () => void, cancel: (reason?: unknown) => void, priority: number, weight: number }[] = [];
+		const idleWaiters: (() => void)[] = [];
+		const slotsOf = (weight: number) => Math.min(weight, concurrency);
+		const next = () => {
+			while (!paused && queue.length > 0 && usedSlots + slotsOf(queue[0].weight) <= concurrency) {
+				const nextTask = queue.shift();
+				nextTask && nextTask.execute();
+			}
+			if (hadPending && queue.length === 0) {
+				events.onDrain?.();
+			}
+			hadPending = queue.length > 0;
+			if (running === 0 && queue.length === 0) {
+				events.onIdle?.();
+				idleWaiters.splice(0).forEach(resolve => resolve());
+			}
+		}
+		const onIdle = () => new Futurable<void>((resolve, _, utils) => {
+			if (running === 0 && queue.length === 0) {
+				resolve();
+				return;
+			}
+			idleWaiters.push(resolve);
+			utils.onCancel(() => {
+				const idx = idleWaiters.indexOf(resolve);
+				if (idx !== -1) {
+					idleWaiters.splice(idx, 1);
+				}
+			});
+		}, signal);
+		const enqueue = (entry: typeof queue[number]) => {
+			let idx = queue.length;
+			while (idx > 0 && queue[idx - 1].priority < entry.priority) {
+				idx--;
+			}
+			queue.splice(idx, 0, entry);
+		}
+		const limiter = <T, E>(task: FuturableTask<T, E>, { priority = 0, weight = 1 }: LimiterTaskOptions = {}) => new FuturableTask<T, E>((res, rej, utils) => {
+			let isWaiting = false;
+			let release: (() => void) | undefined;
+			const execute = () => {
+				const slots = slotsOf(weight);
+				let released = false;
+				isWaiting = false;
+				running++;
+				usedSlots += slots;
+				release = () => {
+					if (!released) {
+						released = true;
+						running--;
+						usedSlots -= slots;
+						next();
+					}
+				};
+				events.onActive?.(task);
+				task
+					.run(utils.signal)
+					.then(result => {
+						events.onCompleted?.(result);
+						res(result);
+					})
+					.catch(err => {
+						events.onError?.(err);
+						rej(err);
+					})
+					.finally(release);
+			}
+			const entry = { execute, cancel: utils.cancel, priority, weight };
+			utils.onCancel(() => {
+				if (isWaiting) {
+					const idx = queue.indexOf(entry);
+					if (idx !== -1) {
+						queue.splice(idx, 1);
+					}
+					next();
+				} else {
+					// A cancelled run never settles: free its slots now
+					release?.();
+				}
+			});
+			if (!paused && queue.length === 0 && usedSlots + slotsOf(weight) <= concurrency) {
+				execute();
+			} else {
+				isWaiting = true;
+				enqueue(entry);
+				next();
+			}
+		}, signal);
+
+		Object.defineProperties(
+			limiter,
+			{
+				activeCount: { get: () => running },
+				pendingCount: { get: () => queue.length },
+				concurrency: {
+					get: () => concurrency,
+					set: (value: number) => {
+						if (!(value >= 1)) {
+							throw new RangeError(`Expected concurrency to be a number >= 1, got ${value}`);
+						}
+						concurrency = value;
+						if (queue.length > 0) {
+							next();
+						}
+					}
+				},
+				isPaused: { get: () => paused },
+				pause: {
+					value: () => {
+						if (!paused) {
+							paused = true;
+							events.onPause?.();
+						}
+					}
+				},
+				resume: {
+					value: () => {
+						if (paused) {
+							paused = false;
+							events.onResume?.();
+							next();
+						}
+					}
+				},
+				onIdle: { value: onIdle },
+				drain: { value: onIdle },
+				clear: {
+					value: (reason?: unknown) => {
+						queue.splice(0).forEach(entry => entry.cancel(reason));
+						next();
+					}
+				}
+			}
+		);
+		return limiter as FuturableTaskLimiter;
+	}
+
+	/**
+	 * Creates a higher-order function (keyed limiter) that limits concurrent execution per key.
+	 *
+	 * The caller supplies a key with each task. Every key gets its own queue, created lazily
+	 * with `createLimiter` semantics (priorities and weights included) and an independent
+	 * concurrency. Tasks with different keys never wait for each other. Once a key has no
+	 * queued or running tasks, its queue is discarded, so keys can be unbounded (document IDs,
+	 * tenant IDs, URLs...).
+	 *
+	 * The limiter `events` are shared by all keys and receive the key as their last argument.
+	 *
+	 * @template K - The type of the keys
+	 * @param concurrency - Maximum number of tasks running simultaneously for each key,
+	 *                      or a function returning it for a given key
+	 * @param events - Optional lifecycle hooks for monitoring, receiving the task key
+	 * @param signal - Optional AbortSignal for the limiter
+	 * @returns A decorator function that limits task concurrency per key
+	 *
+	 * @example
+	 * ```typescript
+	 * // At most one in-flight write per document
+	 * const writes = FuturableTask.createKeyedLimiter<string>(1);
+	 *
+	 * const save = (doc: Doc) => writes(doc.id, FuturableTask.fetch(`/docs/${doc.id}`, {
+	 *   method: 'PUT',
+	 *   body: JSON.stringify(doc)
+	 * }));
+	 * ```
+	 *
+	 * @example
+	 * ```typescript
+	 * // Per-tenant concurrency with events
+	 * const tenants = FuturableTask.createKeyedLimiter<string>(
+	 *   (tenantId) => tenantId === 'enterprise' ? 10 : 3,
+	 *   {
+	 *     onActive: (task, tenantId) => metrics.increment(`active.${tenantId}`),
+	 *     onIdle: (tenantId) => console.log(`Tenant ${tenantId} is idle`)
+	 *   }
+	 * );
+	 *
+	 * console.log(tenants.activeCount, tenants.pendingCount, tenants.keyCount);
+	 * ```
+	 */
+	static createKeyedLimiter<K = string>(concurrency: number | ((key: K) => number), events: LimiterEvents = {}, signal?: AbortSignal): FuturableTaskKeyedLimiter<K> {
+		const limiters = new Map<K, FuturableTaskLimiter>();
+		const limiterOf = (key: K) => {
+			let keyLimiter = limiters.get(key);
+			if (!keyLimiter) {
+				keyLimiter = FuturableTask.createLimiter(
+					typeof concurrency === "function" ? concurrency(key) : concurrency,
+					{
+						onActive: task => events.onActive?.(task, key),
+						onCompleted: result => events.onCompleted?.(result, key),
+						onError: error => events.onError?.(error, key),
+						onDrain: () => events.onDrain?.(key),
+						onIdle: () => {
+							limiters.delete(key);
+							events.onIdle?.(key);
+						}
+					}
+				);
+				limiters.set(key, keyLimiter);
+			}
+			return keyLimiter;
+		}
+		const sum = (count: (keyLimiter: FuturableTaskLimiter) => number) => {
+			let total = 0;
+			limiters.forEach(keyLimiter => total += count(keyLimiter));
+			return total;
+		}
+		const limiter = <T, E>(key: K, task: FuturableTask<T, E>, options?: LimiterTaskOptions) => new FuturableTask<T, E>((res, rej, utils) => {
+			limiterOf(key)(task, options)
+				.run(utils.signal)
+				.then(res)
+				.catch(rej);
+		}, signal);
+
+		Object.defineProperties(
+			limiter,
+			{
+				activeCount: { get: () => sum(keyLimiter => keyLimiter.activeCount) },
+				pendingCount: { get: () => sum(keyLimiter => keyLimiter.pendingCount) },
+				keyCount: { get: () => limiters.size }
+			}
+		);
+		return limiter as FuturableTaskKeyedLimiter<K>;
+	}
+
+	/**
+	 * Creates a higher-order function (rate limiter) that limits how many tasks can start
+	 * per unit of time, using a token bucket.
+	 *
+	 * The bucket holds up to `burst` tokens and is refilled continuously at a rate of
+	 * `tokensPerInterval` tokens every `interval` milliseconds. Each wrapped task takes
+	 * one token when it starts; when the bucket is empty the task waits in a FIFO queue
+	 * until a token becomes available. Unlike `createLimiter`, the rate limiter does not
+	 * bound how many tasks run at the same time, only how often they start.
+	 *
+	 * Queued tasks that are cancelled through their signal leave the queue without consuming a token.
+	 *
+	 * @param options - Token bucket configuration
+	 * @param signal - Optional AbortSignal for the rate limiter
+	 * @returns A decorator function that limits task throughput
+	 * @throws RangeError if `tokensPerInterval`, `interval` or `burst` are not positive numbers
+	 *
+	 * @example
+	 * ```typescript
+	 * // At most 10 requests per second
+	 * const rateLimiter = FuturableTask.createRateLimiter({
+	 *   tokensPerInterval: 10,
+	 *   interval: 1000
+	 * });
+	 *
+	 * const users = await FuturableTask.parallel(
+	 *   userIds.map(id => rateLimiter(FuturableTask.fetch(`/api/users/${id}`)))
+	 * ).run();
+	 * ```
+	 *
+	 * @example
+	 * ```typescript
+	 * // Combine with createLimiter to bound both throughput and concurrency
+	 * const rateLimiter = FuturableTask.createRateLimiter({ tokensPerInterval: 5, interval: 1000, burst: 1 });
+	 * const limiter = FuturableTask.createLimiter(2);
+	 *
+	 * const task = limiter(rateLimiter(FuturableTask.fetch('/api/report')));
+	 * ```
+	 */
+	static createRateLimiter({ tokensPerInterval, interval, burst = tokensPerInterval }: RateLimiterOptions, signal?: AbortSignal): FuturableTaskRateLimiter {
+		if (!(tokensPerInterval > 0) || !(interval > 0) || !(burst > 0)) {
+			throw new RangeError("Expected tokensPerInterval, interval and burst to be positive numbers");
+		}
+		let tokens = burst;
+		let lastRefill = Date.now();
+		let timer: ReturnType<typeof setTimeout> | undefined;
+		const queue: (() => void)[] = [];
+		const refill = () => {
+			const now = Date.now();
+			tokens = Math.min(burst, tokens + (now - lastRefill) * tokensPerInterval / interval);
+			lastRefill = now;
+		}
+		const next = () => {
+			timer = undefined;
+			refill();
+			while (queue.length > 0 && tokens >= 1) {
+				tokens--;
+				const execute = queue.shift();
+				execute && execute();
+			}
+			if (queue.length > 0) {
+				timer = setTimeout(next, Math.max(1, Math.ceil((1 - tokens) * interval / tokensPerInterval)));
+			}
+		}
+		const limiter = <T, E>(task: FuturableTask<T, E>) => new FuturableTask<T, E>((res, rej, utils) => {
+			const execute = () => {
+				task
+					.run(utils.signal)
+					.then(res)
+					.catch(rej);
+			}
+			utils.onCancel(() => {
+				const idx = queue.indexOf(execute);
+				if (idx !== -1) {
+					queue.splice(idx, 1);
+					if (queue.length === 0 && timer !== undefined) {
+						clearTimeout(timer);
+						timer = undefined;
+					}
+				}
+			});
+			queue.push(execute);
+			if (timer === undefined) {
+				next();
+			}
+		}, signal);
+
+		Object.defineProperties(
+			limiter,
+			{
+				availableTokens: {
+					get: () => {
+						refill();
+						return Math.floor(tokens);
+					}
+				},
+				pendingCount: { get: () => queue.length }
+			}
+		);
+		return limiter as FuturableTaskRateLimiter;
+	}
+
+	/**
+	 * Creates a higher-order function (circuit breaker) that stops executing tasks
+	 * against a failing resource and fails fast instead.
+	 *
+	 * The circuit starts closed. When the number of failures within the rolling window
+	 * reaches the threshold, it opens: wrapped tasks reject immediately with a
+	 * CircuitOpenError without being executed. After the reset timeout the circuit moves
+	 * to half-open and lets a limited number of trial tasks through: if they succeed the
+	 * circuit closes, if one fails it opens again.
+	 *
+	 * The move to half-open is scheduled with a timer when the circuit opens, so `onHalfOpen`
+	 * and `onStateChange` fire as soon as the reset timeout elapses. Aborting `signal` clears
+	 * the timer: the circuit then moves to half-open the next time it is used or its state is read.
+	 *
+	 * Like createLimiter, tasks are only checked against the circuit when their run()
+	 * method is called. Cancelled executions count neither as successes nor as failures.
+	 *
+	 * @param options - Thresholds and timings of the circuit
+	 * @param events - Optional state-change hooks
+	 * @param signal - Optional AbortSignal for the wrapped tasks
+	 * @returns A decorator function that protects tasks with the circuit breaker
+	 *
+	 * @example
+	 * ```typescript
+	 * const breaker = FuturableTask.createCircuitBreaker(
+	 *   { failureThreshold: 5, rollingWindow: 10000, resetTimeout: 30000 },
+	 *   { onStateChange: (state) => console.log('Circuit is now', state) }
+	 * );
+	 *
+	 * const getUser = (id: number) => breaker(
+	 *   FuturableTask.fetch(`/api/users/${id}`).map(res => res.json())
+	 * );
+	 *
+	 * try {
+	 *   const user = await getUser(1).run();
+	 * } catch (err) {
+	 *   if (err instanceof CircuitOpenError) {
+	 *     showOfflineBanner();
+	 *   }
+	 * }
+	 * ```
+	 *
+	 * @example
+	 * ```typescript
+	 * // Combining with a limiter and retries
+	 * const limiter = FuturableTask.createLimiter(5);
+	 * const breaker = FuturableTask.createCircuitBreaker({
+	 *   failureThreshold: 3,
+	 *   isFailure: (err) => !(err instanceof ValidationError)
+	 * });
+	 *
+	 * const task = breaker(limiter(FuturableTask.fetch('/api/data')));
+	 * ```
+	 */
+	static createCircuitBreaker(options: CircuitBreakerOptions = {}, events: CircuitBreakerEvents = {}, signal?: AbortSignal): FuturableTaskCircuitBreaker {
+		const {
+			failureThreshold = 5,
+			rollingWindow = 60000,
+			resetTimeout = 30000,
+			halfOpenMaxCalls = 1,
+			successThreshold = 1,
+			isFailure = () => true
+		} = options;
+		let state: CircuitState = "closed";
+		let openedAt = 0;
+		let failures: number[] = [];
+		let halfOpenCalls = 0;
+		let halfOpenSuccesses = 0;
+		let generation = 0;
+		let resetTimer: ReturnType<typeof setTimeout> | undefined;
+
+		const clearResetTimer = () => {
+			clearTimeout(resetTimer);
+			resetTimer = undefined;
+		};
+		const transition = (next: CircuitState) => {
+			if (state === next) {
+				return;
+			}
+			const previous = state;
+			state = next;
+			generation++;
+			halfOpenCalls = 0;
+			halfOpenSuccesses = 0;
+			clearResetTimer();
+			if (next === "open") {
+				openedAt = Date.now();
+				if (!signal?.aborted) {
+					resetTimer = setTimeout(() => transition("half-open"), resetTimeout);
+				}
+				events.onOpen?.();
+			} else if (next === "half-open") {
+				events.onHalfOpen?.();
+			} else {
+				failures = [];
+				events.onClose?.();
+			}
+			events.onStateChange?.(next, previous);
+		};
+		signal?.addEventListener("abort", clearResetTimer, { once: true });
+		// Also checked lazily, in case the timer is late or was cleared by the signal
+		const currentState = (): CircuitState => {
+			if (state === "open" && Date.now() - openedAt >= resetTimeout) {
+				transition("half-open");
+			}
+			return state;
+		};
+		const pruneFailures = () => {
+			const now = Date.now();
+			failures = failures.filter(timestamp => now - timestamp < rollingWindow);
+		};
+
+		const breaker = <T, E>(task: FuturableTask<T, E>) => new FuturableTask<T, E | CircuitOpenError>((res, rej, utils) => {
+			const current = currentState();
+			if (current === "open" || (current === "half-open" && halfOpenCalls >= halfOpenMaxCalls)) {
+				const error = new CircuitOpenError(Math.max(0, resetTimeout - (Date.now() - openedAt)));
+				events.onReject?.(error);
+				return rej(error);
+			}
+			const isTrial = current === "half-open";
+			const trialGeneration = generation;
+			let settled = false;
+			const release = () => {
+				if (!settled) {
+					settled = true;
+					isTrial && trialGeneration === generation && halfOpenCalls--;
+				}
+			};
+			isTrial && halfOpenCalls++;
+			utils.onCancel(release);
+			task
+				.run(utils.signal)
+				.then(result => {
+					release();
+					if (isTrial && trialGeneration === generation && ++halfOpenSuccesses >= successThreshold) {
+						transition("closed");
+					}
+					res(result);
+				})
+				.catch(err => {
+					release();
+					if (isFailure(err)) {
+						if (state === "half-open") {
+							transition("open");
+						} else if (state === "closed") {
+							failures.push(Date.now());
+							pruneFailures();
+							failures.length >= failureThreshold && transition("open");
+						}
+					}
+					rej(err);
+				});
+		}, signal);
+
+		Object.defineProperties(
+			breaker,
+			{
+				state: { get: () => currentState() },
+				failureCount: {
+					get: () => {
+						pruneFailures();
+						return failures.length;
+					}
+				},
+				reset: {
+					value: () => {
+						transition("closed");
+						failures = [];
+					}
+				}
+			}
+		);
+		return breaker as FuturableTaskCircuitBreaker;
+	}
+
+	/**
+	 * Memoizes a task factory by its arguments.
+	 *
+	 * Returns a factory with the same signature whose tasks share their executions per cache key:
+	 * the first run for a key calls the original factory and executes the task, concurrent and
+	 * later runs for the same key join that execution or reuse its result. Entries are kept in an
+	 * LRU cache bounded by `maxSize` and expire after `ttl`, like memoize().
+	 *
+	 * A failed execution evicts its entry, so the next run for that key calls the factory again,
+	 * unless `catchErrors` is true.
+	 *
+	 * @template A - The argument types of the factory
+	 * @template T - The type of value produced by the tasks
+	 * @param factory - Function creating the task for the given arguments
+	 * @param options - Key function, cache size, ttl and error caching
+	 * @returns The memoized factory
+	 *
+	 * @example
+	 * ```typescript
+	 * const getUser = FuturableTask.memoizeFn(
+	 *   (id: number) => FuturableTask.fetch(`/users/${id}`).map(res => res.json()),
+	 *   { maxSize: 500, ttl: 60_000 }
+	 * );
+	 *
+	 * // Only one request is made for user 1
+	 * const [a, b] = await Promise.all([getUser(1).run(), getUser(1).run()]);
+	 * ```
+	 *
+	 * @example
+	 * ```typescript
+	 * // Custom key for object arguments
+	 * const search = FuturableTask.memoizeFn(
+	 *   (query: { text: string, page: number }) => FuturableTask.fetch(`/search?q=${query.text}&page=${query.page}`),
+	 *   { key: query => `${query.text}:${query.page}` }
+	 * );
+	 * ```
+	 */
+	static memoizeFn<A extends any[], T, E = unknown>(factory: (...args: A) => FuturableTask<T, E>, options: MemoizeFnOptions<A> = {}): FuturableTaskMemoizedFn<A, T, E> {
+		const {
+			key = (...args: A) => JSON.stringify(args),
+			maxSize = Infinity,
+			ttl,
+			catchErrors
+		} = options;
+		const cache = new Map<unknown, FuturableTask<T, E>>();
+		const entryOf = (cacheKey: unknown, args: A) => {
+			let task = cache.get(cacheKey);
+			if (task) {
+				cache.delete(cacheKey);
+			} else {
+				task = factory(...args).memoize({ ttl, catchErrors });
+			}
+			cache.set(cacheKey, task);
+			while (cache.size > maxSize) {
+				cache.delete(cache.keys().next().value);
+			}
+			return task;
+		}
+		const pruneExpired = () => {
+			if (ttl === undefined) {
+				return;
+			}
+			for (const [cacheKey, task] of cache) {
+				const age = task.cacheAge;
+				age !== undefined && age >= ttl && cache.delete(cacheKey);
+			}
+		}
+		const memoized = (...args: A) => new FuturableTask<T, E>((res, rej) => {
+			const cacheKey = key(...args);
+			const task = entryOf(cacheKey, args);
+			task
+				.run()
+				.then(res)
+				.catch(err => {
+					if (!catchErrors && cache.get(cacheKey) === task) {
+						cache.delete(cacheKey);
+					}
+					rej(err);
+				});
+		});
+
+		Object.defineProperties(
+			memoized,
+			{
+				size: {
+					get: () => {
+						pruneExpired();
+						return cache.size;
+					}
+				},
+				invalidate: { value: (...args: A) => cache.delete(key(...args)) },
+				clear: { value: () => cache.clear() }
+			}
+		);
+		return memoized as FuturableTaskMemoizedFn<A, T, E>;
+	}
+
+	/**
+	 * Creates an in-memory CacheStore backed by a Map.
+	 *
+	 * Entries live as long as the store instance, which makes it useful to share memoized
+	 * results between tasks or as a default in tests.
+	 *
+	 * @returns A new in-memory CacheStore
+	 *
+	 * @example
+	 * ```typescript
+	 * const store = FuturableTask.createMemoryStore();
+	 *
+	 * const config = FuturableTask.fetch('/api/config')
+	 *   .map(res => res.json())
+	 *   .memoize({ ttl: 60_000, persist: { store, key: 'config' } });
+	 * ```
+	 */
+	static createMemoryStore(): CacheStore {
+		const entries = new Map<string, StoredCacheEntry>();
+		return {
+			get: key => {
+				const entry = entries.get(key);
+				if (entry && entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+					entries.delete(key);
+					return undefined;
+				}
+				return entry?.value;
+			},
+			set: (key, value, ttl) => {
+				entries.set(key, { value, expiresAt: ttl === undefined ? undefined : Date.now() + ttl });
+			},
+			delete: key => {
+				entries.delete(key);
+			}
+		};
+	}
+
+	/**
+	 * Creates a CacheStore backed by the Web Storage API, `localStorage` by default.
+	 *
+	 * Results persisted through this store survive page reloads. Keys are prefixed to avoid
+	 * collisions with other data saved by the application.
+	 *
+	 * @param prefix - Prefix added to every key (default: "futurable:")
+	 * @param storage - Storage to use (default: globalThis.localStorage)
+	 * @returns A new Web Storage CacheStore
+	 *
+	 * @example
+	 * ```typescript
+	 * const profile = FuturableTask.fetch('/api/me')
+	 *   .map(res => res.json())
+	 *   .memoize({
+	 *     ttl: 10 * 60_000,
+	 *     persist: { store: FuturableTask.createLocalStorageStore('my-app:'), key: 'profile' }
+	 *   });
+	 * ```
+	 */
+	static createLocalStorageStore(prefix = "futurable:", storage: Storage = globalThis.localStorage): CacheStore {
+		return {
+			get: key => {
+				const raw = storage.getItem(prefix + key);
+				if (raw === null) {
+					return undefined;
+				}
+				try {
+					const entry: StoredCacheEntry = JSON.parse(raw);
+					if (entry.expiresAt === undefined || entry.expiresAt > Date.now()) {
+						return entry.value;
+					}
+				} catch {
+					// not written by this store: treated as expired
+				}
+				storage.removeItem(prefix + key);
+				return undefined;
+			},
+			set: (key, value, ttl) => {
+				const entry: StoredCacheEntry = { value, expiresAt: ttl === undefined ? undefined : Date.now() + ttl };
+				storage.setItem(prefix + key, JSON.stringify(entry));
+			},
+			delete: key => {
+				storage.removeItem(prefix + key);
+			}
+		};
+	}
+
+	/**
+	 * Creates a CacheStore that keeps all entries in a single JSON file.
+	 *
+	 * Results persisted through this store survive process restarts. The file is created on the
+	 * first write; writes are serialized and expired entries are pruned on every write.
+	 * The file system functions are passed in rather than imported, so the library itself
+	 * never references `node:fs` and stays bundleable for browsers.
+	 *
+	 * @param path - Path of the JSON file
+	 * @param fs - File system functions, e.g. the `node:fs/promises` module
+	 * @returns A new file-backed CacheStore
+	 *
+	 * @example
+	 * ```typescript
+	 * import * as fs from 'node:fs/promises';
+	 *
+	 * const store = FuturableTask.createFileStore('./.cache/tasks.json', fs);
+	 *
+	 * const token = FuturableTask.fetch('https://auth.example.com/token')
+	 *   .map(res => res.json())
+	 *   .memoize({ ttl: 55 * 60_000, persist: { store, key: 'token' } });
+	 * ```
+	 */
+	static createFileStore(path: string, { readFile, writeFile }: CacheFileSystem): CacheStore {
+		let queue: Promise<unknown> = Promise.resolve();
+		const read = async (): Promise<Record<string, StoredCacheEntry>> => {
+			try {
+				return JSON.parse(await readFile(path, "utf8"));
+			} catch {
+				return {};
+			}
+		}
+		const write = (update: (entries: Record<string, StoredCacheEntry>) => void) => {
+			const op = queue.then(async () => {
+				const entries = await read();
+				update(entries);
+				const now = Date.now();
+				for (const key of Object.keys(entries)) {
+					const { expiresAt } = entries[key];
+					if (expiresAt !== undefined && expiresAt <= now) {
+						delete entries[key];
+					}
+				}
+				await writeFile(path, JSON.stringify(entries));
+			});
+			queue = op.catch(() => {});
+			return op;
+		}
+		return {
+			get: key => queue.then(read).then(entries => {
+				const entry = entries[key];
+				if (!entry || (entry.expiresAt !== undefined && entry.expiresAt <= Date.now())) {
+					return undefined;
+				}
+				return entry.value;
+			}),
+			set: (key, value, ttl) => write(entries => {
+				entries[key] = { value, expiresAt: ttl === undefined ? undefined : Date.now() + ttl };
+			}),
+			delete: key => write(entries => {
+				delete entries[key];
+			})
+		};
+	}
+
+	/**
+	 * Creates a lazy task that drives a generator function as a cancellable async function.
+	 *
+	 * This is the lazy counterpart of Futurable.gen(): the generator function is called on every
+	 * run() and receives the utils of that execution. `yield` works like `await`, and on
+	 * cancellation the generator is never resumed, its `finally` blocks run and the Futurable
+	 * currently being yielded is cancelled.
+	 *
+	 * @template T - The type of value returned by the generator
+	 * @param generatorFn - Generator function receiving the utils of the execution
+	 * @param signal - Optional AbortSignal for the task
+	 * @returns A new FuturableTask running the generator
+	 *
+	 * @example
+	 * ```typescript
+	 * const syncUser = (id: number) => FuturableTask.gen(function* ({ fetch, signal }) {
+	 *   const res: Response = yield fetch(`/api/users/${id}`);
+	 *   const user: User = yield res.json();
+	 *   yield saveToCache(user).run(signal);
+	 *   return user;
 	 * });
 	 *
-	 * // Wrap your original tasks
-	 * const tasks = [1,2,3,4,5].map(i => limiter(
-	 *   FuturableTask.of(async () => {
-	 *     await delay(1000);
-	 *     return i;
-	 *   })
-	 * ));
-	 *
-	 * // Execution starts here, respects limit of 2
-	 * const results = await FuturableTask.all(tasks).run();
-	 * console.log(results); // [1, 2, 3, 4, 5]
+	 * const run = syncUser(1).retry(3).run();
+	 * run.cancel(); // stops between two steps
 	 * ```
+	 */
+	static gen<T>(generatorFn: (utils: FuturableUtils<T>) => Generator<unknown, T, any>, signal?: AbortSignal): FuturableTask<T> {
+		return new FuturableTask<T>((res, rej, utils) => {
+			Futurable.gen<T>(() => generatorFn(utils), utils.signal).then(res, rej);
+		}, signal);
+	}
+
+	/**
+	 * Creates a lazy task that polls another task until a stop condition is met.
 	 *
-	 * @example
-	 * ```typescript
-	 * // Monitoring limiter state
-	 * const limiter = FuturableTask.createLimiter(3);
-	 *
-	 * console.log(limiter.concurrency);  // 3
-	 * console.log(limiter.activeCount);  // 0
-	 * console.log(limiter.pendingCount); // 0
+	 * Nothing happens until run() is called. Each run starts a polling (see Futurable.polling())
+	 * that runs the given task on every tick, and:
+	 * - resolves with the first result satisfying `until`
+	 * - rejects with the last error after `maxErrors` consecutive failed ticks
+	 * - stops polling, cancelling the tick in progress, when the run is cancelled
 	 *
-	 * const task = limiter(FuturableTask.of(() => operation()));
-	 * task.run();
+	 * Without `until`, the task polls until it is cancelled. Since each tick is a plain run()
+	 * of the given task, it composes with limiters, circuit breakers, retry() and timeout().
 	 *
-	 * console.log(limiter.activeCount);  // 1
-	 * ```
+	 * @template T - The type of value produced by the polled task
+	 * @template E - The type of error of the polled task
+	 * @param task - The task run on every tick
+	 * @param options - Polling options
+	 * @param signal - Optional AbortSignal for the task
+	 * @returns A new FuturableTask resolving with the result that satisfied `until`
 	 *
 	 * @example
 	 * ```typescript
-	 * // API rate limiting
-	 * const apiLimiter = FuturableTask.createLimiter(5, {
-	 *   onError: (err) => logger.error('API call failed', err)
-	 * });
-	 *
-	 * const fetchUser = (id) => apiLimiter(
-	 *   FuturableTask.of(() => fetch(`/api/users/${id}`))
+	 * const waitForJob = (id: string) => FuturableTask.poll(
+	 *   FuturableTask.fetch(`/api/jobs/${id}`).map(res => res.json()),
+	 *   { interval: 2000, immediate: true, until: job => job.status === 'done', maxErrors: 5 }
 	 * );
 	 *
-	 * const users = await FuturableTask.all(
-	 *   userIds.map(fetchUser)
-	 * ).run();
+	 * const job = await waitForJob('42').timeout(60_000).run();
+	 * ```
+	 *
+	 * @example
+	 * ```typescript
+	 * // Every tick goes through a shared limiter
+	 * const limiter = FuturableTask.createLimiter(2);
+	 * const statuses = ids.map(id => FuturableTask.poll(limiter(checkStatus(id)), {
+	 *   interval: 1000,
+	 *   mode: 'fixed-delay',
+	 *   until: status => status.ready
+	 * }));
+	 * await FuturableTask.all(statuses).run();
 	 * ```
 	 */
-	static createLimiter(concurrency: number, events: LimiterEvents = {}, signal?: AbortSignal): FuturableTaskLimiter {
-		let running = 0;
-		const queue: (() => void)[] = [];
-		const next = () => {
-			while (running < concurrency && queue.length > 0) {
-				const nextTask = queue.shift();
-				nextTask && nextTask();
-			}
-			if (running === 0 && queue.length === 0) {
-				events.onIdle?.();
-			}
-		}
-		const limiter = <T>(task: FuturableTask<T>) => new FuturableTask<T>((res, rej, utils) => {
-			let isWaiting = false;
-			const execute = () => {
-				isWaiting = false;
-				running++;
-				events.onActive?.(task);
-				task
-					.run(utils.signal)
-					.then(result => {
-						events.onCompleted?.(result);
-						res(result);
-					})
-					.catch(err => {
-						events.onError?.(err);
-						rej(err);
-					})
-					.finally(() => {
-						running--;
-						next();
-					})
-			}
-			utils.onCancel(() => {
-				if (isWaiting) {
-					const idx = queue.indexOf(execute);
-					if (idx !== -1) {
-						queue.splice(idx, 1);
-					}
-					next();
-				}
-			});
-			if (running < concurrency) {
-				execute();
-			} else {
-				isWaiting = true;
-				queue.push(execute);
-			}
+	static poll<T, E = unknown>(task: FuturableTask<T, E>, { onError, ...options }: PollOptions<T>, signal?: AbortSignal): FuturableTask<T, E> {
+		return new FuturableTask<T, E>((res, rej, utils) => {
+			const polling = Futurable.polling(() => task.run(utils.signal), { ...options, signal: utils.signal });
+			polling.catch(error => onError?.(error));
+			polling.result.then(res, rej);
 		}, signal);
-
-		Object.defineProperties(
-			limiter,
-			{
-				activeCount: { get: () => running },
-				pendingCount: { get: () => queue.length },
-				concurrency: { get: () => concurrency }
-			}
-		);
-		return limiter as FuturableTaskLimiter;
 	}
 
 	/**
@@ -2668,8 +4854,8 @@ export class FuturableTask<T> {
 	 * ).run();
 	 * ```
 	 */
-	static filter<T>(tasks: FuturableTask<T>[], predicate: (value: T) => boolean | Promise<boolean>, signal?: AbortSignal): FuturableTask<T[]> {
-		return new FuturableTask<T[]>(async (res, rej, utils) => {
+	static filter<T, E = unknown>(tasks: FuturableTask<T, E>[], predicate: (value: T) => boolean | Promise<boolean>, signal?: AbortSignal): FuturableTask<T[], E> {
+		return new FuturableTask<T[], E>(async (res, rej, utils) => {
 			const results: T[] = [];
 			try {
 				for (const task of tasks) {
@@ -2741,8 +4927,8 @@ export class FuturableTask<T> {
 	 * ).run();
 	 * ```
 	 */
-	static reduce<T, U>(tasks: FuturableTask<T>[], reducer: (acc: U, value: T, index: number) => U | Promise<U>, initialValue: U, signal?: AbortSignal): FuturableTask<U> {
-		return new FuturableTask<U>(async (res, rej, utils) => {
+	static reduce<T, U, E = unknown>(tasks: FuturableTask<T, E>[], reducer: (acc: U, value: T, index: number) => U | Promise<U>, initialValue: U, signal?: AbortSignal): FuturableTask<U, E> {
+		return new FuturableTask<U, E>(async (res, rej, utils) => {
 			let acc = initialValue;
 			try {
 				for (let i = 0; i < tasks.length; i++) {
@@ -2806,8 +4992,8 @@ export class FuturableTask<T> {
 	 * ).run();
 	 * ```
 	 */
-	static whilst<T>(condition: () => boolean | Promise<boolean>, task: FuturableTask<T>, signal?: AbortSignal): FuturableTask<T[]> {
-		return new FuturableTask<T[]>(async (res, rej, utils) => {
+	static whilst<T, E = unknown>(condition: () => boolean | Promise<boolean>, task: FuturableTask<T, E>, signal?: AbortSignal): FuturableTask<T[], E> {
+		return new FuturableTask<T[], E>(async (res, rej, utils) => {
 			const results: T[] = [];
 			try {
 				while (await condition()) {
@@ -2869,7 +5055,7 @@ export class FuturableTask<T> {
 	 * ).run();
 	 * ```
 	 */
-	static until<T>(condition: () => boolean | Promise<boolean>, task: FuturableTask<T>, signal?: AbortSignal): FuturableTask<T[]> {
+	static until<T, E = unknown>(condition: () => boolean | Promise<boolean>, task: FuturableTask<T, E>, signal?: AbortSignal): FuturableTask<T[], E> {
 		return FuturableTask.whilst(
 			async () => !(await condition()),
 			task,
@@ -2917,8 +5103,8 @@ export class FuturableTask<T> {
 	 * ).run();
 	 * ```
 	 */
-	static times<T>(n: number, taskFactory: (index: number) => FuturableTask<T>, signal?: AbortSignal): FuturableTask<T[]> {
-		return new FuturableTask<T[]>(async (res, rej, utils) => {
+	static times<T, E = unknown>(n: number, taskFactory: (index: number) => FuturableTask<T, E>, signal?: AbortSignal): FuturableTask<T[], E> {
+		return new FuturableTask<T[], E>(async (res, rej, utils) => {
 			const results: T[] = [];
 			try {
 				for (let i = 0; i < n; i++) {
@@ -2973,7 +5159,7 @@ export class FuturableTask<T> {
 	 * ).run();
 	 * ```
 	 */
-	static traverse<T, U>(values: T[], fn: (value: T, index: number) => FuturableTask<U>, signal?: AbortSignal): FuturableTask<U[]> {
+	static traverse<T, U, E = unknown>(values: T[], fn: (value: T, index: number) => FuturableTask<U, E>, signal?: AbortSignal): FuturableTask<U[], E> {
 		return FuturableTask.sequence(
 			values.map((v, i) => fn(v, i)),
 			signal
@@ -2998,7 +5184,7 @@ export class FuturableTask<T> {
  * ```
  */
 	static fetch(url: string, opts?: RequestInit, signal?: AbortSignal): FuturableTask<Response> {
-		return new FuturableTask<Response>((res, rej, utils) => {
+		return FuturableTask.withMethod(opts, new FuturableTask<Response>((res, rej, utils) => {
 			const fetchOpts: RequestInit = {
 				...opts,
 				signal: utils.signal
@@ -3006,6 +5192,452 @@ export class FuturableTask<T> {
 			utils.fetch(url, fetchOpts)
 				.then(res)
 				.catch(rej);
-		}, signal);
+		}, signal));
+	}
+
+	/**
+	 * Static method to create a task that fetches a URL and parses the response body as JSON.
+	 * Non-2xx responses reject with an HttpError carrying the status, headers and parsed body.
+	 *
+	 * @template T - The type of the parsed body
+	 * @param url - The URL to fetch
+	 * @param opts - Optional Fetch API options
+	 * @param validate - Optional type guard checking the parsed body at runtime
+	 * @param signal - Optional AbortSignal for the task
+	 * @returns A FuturableTask that resolves with the parsed body
+	 *
+	 * @example
+	 * ```typescript
+	 * const users = await FuturableTask.fetchJson<User[]>('/api/users')
+	 *   .retry(3)
+	 *   .run();
+	 * ```
+	 *
+	 * @example
+	 * ```typescript
+	 * const user = await FuturableTask.fetchJson('/api/me', undefined, isUser)
+	 *   .catchError(err => err instanceof HttpError && err.status === 401
+	 *     ? FuturableTask.resolve(null)
+	 *     : FuturableTask.reject(err))
+	 *   .run();
+	 * ```
+	 */
+	static fetchJson<T = unknown>(url: string, opts?: RequestInit, validate?: FuturableResponseValidator<T>, signal?: AbortSignal): FuturableTask<T> {
+		return FuturableTask.withMethod(opts, new FuturableTask<T>((res, rej, utils) => {
+			Futurable.fetchJson(url, { ...opts, signal: utils.signal }, validate)
+				.then(res)
+				.catch(rej);
+		}, signal));
+	}
+
+	/**
+	 * Static method to create a task that fetches a URL and reads the response body as text.
+	 * Non-2xx responses reject with an HttpError carrying the status, headers and parsed body.
+	 *
+	 * @param url - The URL to fetch
+	 * @param opts - Optional Fetch API options
+	 * @param signal - Optional AbortSignal for the task
+	 * @returns A FuturableTask that resolves with the body text
+	 *
+	 * @example
+	 * ```typescript
+	 * const csv = await FuturableTask.fetchText('/api/export.csv').run();
+	 * ```
+	 */
+	static fetchText(url: string, opts?: RequestInit, signal?: AbortSignal): FuturableTask<string> {
+		return FuturableTask.withMethod(opts, new FuturableTask<string>((res, rej, utils) => {
+			Futurable.fetchText(url, { ...opts, signal: utils.signal })
+				.then(res)
+				.catch(rej);
+		}, signal));
+	}
+
+	/**
+	 * Static method to create a task that fetches a URL and reads the response body as a Blob.
+	 * Non-2xx responses reject with an HttpError carrying the status, headers and parsed body.
+	 *
+	 * @param url - The URL to fetch
+	 * @param opts - Optional Fetch API options
+	 * @param signal - Optional AbortSignal for the task
+	 * @returns A FuturableTask that resolves with the body Blob
+	 *
+	 * @example
+	 * ```typescript
+	 * const image = await FuturableTask.fetchBlob('/images/logo.png').timeout(10_000).run();
+	 * ```
+	 */
+	static fetchBlob(url: string, opts?: RequestInit, signal?: AbortSignal): FuturableTask<Blob> {
+		return FuturableTask.withMethod(opts, new FuturableTask<Blob>((res, rej, utils) => {
+			Futurable.fetchBlob(url, { ...opts, signal: utils.signal })
+				.then(res)
+				.catch(rej);
+		}, signal));
+	}
+
+	/**
+	 * Static method to create a task that fetches a URL reporting the transfer progress,
+	 * and resolves with the body as a Blob.
+	 * `onDownloadProgress` and `onUploadProgress` receive `{ loaded, total }` after every chunk.
+	 * Non-2xx responses reject with an HttpError; cancelling the run aborts the request and the body reader.
+	 *
+	 * @param url - The URL to fetch
+	 * @param opts - Optional Fetch API options with the progress callbacks
+	 * @param signal - Optional AbortSignal for the task
+	 * @returns A FuturableTask that resolves with the body Blob
+	 *
+	 * @example
+	 * ```typescript
+	 * const download = FuturableTask.fetchWithProgress('/files/report.pdf', {
+	 *   onDownloadProgress: ({ loaded, total }) => setProgress(total ? loaded / total : undefined)
+	 * }).retryHttp(2);
+	 *
+	 * const run = download.run();
+	 * cancelButton.onclick = () => run.cancel();
+	 * ```
+	 */
+	static fetchWithProgress(url: string, opts?: FuturableProgressOptions, signal?: AbortSignal): FuturableTask<Blob> {
+		return FuturableTask.withMethod(opts, new FuturableTask<Blob>((res, rej, utils) => {
+			utils.fetchWithProgress(url, opts)
+				.then(res)
+				.catch(rej);
+		}, signal));
+	}
+
+	/**
+	 * Creates the HTTP client returned by Futurable.createHttpClient(), which documents the options.
+	 * It is built here so that its requests record their method for retryHttp().
+	 *
+	 * @param options - Client configuration
+	 * @returns The HTTP client
+	 */
+	static createHttpClient({ baseUrl = "", headers, fetch: fetchFn = (input, init) => fetch(input, init), interceptors = {} }: FuturableHttpClientOptions = {}): FuturableHttpClient {
+		const resolveUrl = (url: string): string => !baseUrl || /^([a-z][a-z\d+.-]*:|\/\/)/i.test(url)
+			? url
+			: `${baseUrl.replace(/\/+$/, "")}/${url.replace(/^\/+/, "")}`;
+
+		const request = (method: string, url: string, body: unknown, { signal, headers: requestHeaders, ...init }: RequestInit = {}): FuturableTask<Response> => {
+			return FuturableTask.withMethod({ method }, new FuturableTask<Response>((res, rej, utils) => {
+				let sent: FuturableHttpRequest;
+
+				const send = async (): Promise<Response> => {
+					sent = { ...init, method, url: resolveUrl(url), headers: new Headers(headers) };
+					new Headers(requestHeaders).forEach((value, name) => sent.headers.set(name, value));
+					if (body !== undefined) {
+						sent.body = FuturableTask.toBody(body, sent.headers);
+					}
+					for (const intercept of interceptors.request ?? []) {
+						sent = await intercept(sent);
+					}
+					const { url: target, ...requestInit } = sent;
+					let response = await fetchFn(target, { ...requestInit, signal: utils.signal });
+					if (!response.ok) {
+						throw await HttpError.fromResponse(response);
+					}
+					for (const intercept of interceptors.response ?? []) {
+						response = await intercept(response, sent);
+					}
+					return response;
+				};
+
+				send()
+					.catch(async error => {
+						if (utils.signal.aborted) {
+							throw error;
+						}
+						for (const intercept of interceptors.error ?? []) {
+							try {
+								const response = await intercept(error, { request: sent, replay: send });
+								if (response) {
+									return response;
+								}
+							} catch (err) {
+								error = err;
+							}
+						}
+						throw error;
+					})
+					.then(res, rej);
+			}, signal ?? undefined));
+		};
+
+		return {
+			get: (url, init) => request("GET", url, undefined, init),
+			post: (url, body, init) => request("POST", url, body, init),
+			put: (url, body, init) => request("PUT", url, body, init),
+			delete: (url, init) => request("DELETE", url, undefined, init)
+		};
+	}
+
+	/**
+	 * Returns the body as is if fetch accepts it, otherwise serializes it as JSON
+	 * and defaults the content type accordingly.
+	 *
+	 * @private
+	 */
+	private static toBody(body: unknown, headers: Headers): BodyInit | null {
+		if (
+			body === null
+			|| typeof body === "string"
+			|| body instanceof Blob
+			|| body instanceof ArrayBuffer
+			|| ArrayBuffer.isView(body)
+			|| body instanceof FormData
+			|| body instanceof URLSearchParams
+			|| body instanceof ReadableStream
+		) {
+			return body as BodyInit | null;
+		}
+		!headers.has("content-type") && headers.set("Content-Type", "application/json");
+		return JSON.stringify(body);
+	}
+
+	/**
+	 * Static method to consume a Server-Sent Events endpoint as a cancellable stream of events.
+	 *
+	 * Each iteration opens its own connection. When the connection drops or the server closes it,
+	 * the stream reconnects with backoff, sending the `Last-Event-ID` header so that the server can
+	 * resume; a `retry` field sent by the server replaces the base delay. The connection is closed as
+	 * soon as the consumer stops iterating or the stream is cancelled.
+	 *
+	 * As with EventSource, a 204 response ends the stream, and a response that is not of type
+	 * `text/event-stream` fails it; neither is followed by a reconnection.
+	 *
+	 * @param url - The URL of the event stream
+	 * @param options - Fetch API options and reconnection options (`options.signal` also cancels the stream)
+	 * @param signal - Optional AbortSignal that cancels the stream
+	 * @returns A FuturableStream of the received events
+	 *
+	 * @example
+	 * ```typescript
+	 * const events = FuturableTask.fetchEvents('/api/notifications', {
+	 *   headers: { Authorization: `Bearer ${token}` }
+	 * });
+	 *
+	 * for await (const event of events) {
+	 *   if (event.type === 'logout') break; // Closes the connection
+	 *   notify(JSON.parse(event.data));
+	 * }
+	 * ```
+	 *
+	 * @example
+	 * ```typescript
+	 * // Bounded reconnection, typed payloads
+	 * const prices = FuturableTask.fetchEvents('/api/prices', { retries: 5, delay: 500 })
+	 *   .filter(event => event.type === 'price')
+	 *   .map(event => JSON.parse(event.data) as Price);
+	 * ```
+	 */
+	static fetchEvents(url: string, options: FetchEventsOptions = {}, signal?: AbortSignal): FuturableStream<ServerSentEvent> {
+		const { lastEventId = "", retries = Infinity, ...rest } = options;
+		return FuturableTask.reconnectingStream(url, { ...rest, retries }, signal, () => {
+			const state: { lastEventId: string, retry?: number } = { lastEventId };
+			return {
+				reconnectOnEnd: true,
+				contentType: "text/event-stream",
+				baseDelay: () => state.retry,
+				prepare: headers => {
+					!headers.has("accept") && headers.set("Accept", "text/event-stream");
+					state.lastEventId && headers.set("Last-Event-ID", state.lastEventId);
+				},
+				read: (body, streamSignal) => FuturableTask.parseEvents(FuturableTask.readLines(body, streamSignal), state)
+			};
+		});
+	}
+
+	/**
+	 * Static method to consume a streaming response line by line, e.g. an NDJSON endpoint,
+	 * as a cancellable stream.
+	 *
+	 * Each iteration opens its own connection, which is closed as soon as the consumer stops
+	 * iterating or the stream is cancelled. Empty lines are skipped. With `retries`, a dropped
+	 * connection is re-opened with backoff and the lines are read again from the start.
+	 *
+	 * @param url - The URL of the streaming response
+	 * @param options - Fetch API options and reconnection options
+	 * @param signal - Optional AbortSignal that cancels the stream
+	 * @returns A FuturableStream of the received lines
+	 *
+	 * @example
+	 * ```typescript
+	 * const logs = FuturableTask.fetchLines('/api/jobs/42/logs')
+	 *   .map(line => JSON.parse(line) as LogEntry);
+	 *
+	 * for await (const entry of logs) {
+	 *   print(entry);
+	 *   if (entry.level === 'fatal') break;
+	 * }
+	 * ```
+	 */
+	static fetchLines(url: string, options: FetchLinesOptions = {}, signal?: AbortSignal): FuturableStream<string> {
+		const { retries = 0, ...rest } = options;
+		return FuturableTask.reconnectingStream(url, { ...rest, retries }, signal, () => ({
+			reconnectOnEnd: false,
+			prepare: () => { },
+			read: async function* (body, streamSignal) {
+				for await (const line of FuturableTask.readLines(body, streamSignal)) {
+					line.trim() && (yield line);
+				}
+			}
+		}));
+	}
+
+	/**
+	 * Creates a stream that fetches a URL on every iteration and yields the values read from the
+	 * response body, reconnecting with backoff after failures (and after the end of the body
+	 * if `reconnectOnEnd` is set). `connection` is invoked once per iteration to create its state.
+	 * A 204 response ends the stream, and a response of another type than `contentType` fails it,
+	 * without reconnecting in both cases.
+	 *
+	 * @private
+	 */
+	private static reconnectingStream<V>(
+		url: string,
+		{ retries, onReconnect, delay = 1000, backoff = "exponential", factor, maxDelay = 30000, signal: requestSignal, ...init }: RequestInit & StreamReconnectOptions & { retries: number },
+		signal: AbortSignal | undefined,
+		connection: () => {
+			reconnectOnEnd: boolean,
+			contentType?: string,
+			baseDelay?: () => number | undefined,
+			prepare: (headers: Headers) => void,
+			read: (body: ReadableStream<Uint8Array>, signal: AbortSignal) => AsyncIterable<V>
+		}
+	): FuturableStream<V> {
+		const stream = new FuturableStream<V>(async function* (streamSignal) {
+			const { reconnectOnEnd, contentType, baseDelay, prepare, read } = connection();
+			let computeDelay: ((attempt: number) => number) | undefined;
+
+			for (let attempt = 0; ;) {
+				let error: unknown;
+				try {
+					const headers = new Headers(init.headers);
+					prepare(headers);
+					const response = await fetch(url, { ...init, headers, signal: streamSignal });
+					if (!response.ok) {
+						throw await HttpError.fromResponse(response);
+					}
+					if (response.status === 204) {
+						return;
+					}
+					const type = response.headers.get("content-type") ?? "";
+					if (contentType && type.split(";")[0].trim().toLowerCase() !== contentType) {
+						response.body?.cancel().catch(() => { });
+						throw new Error(`Expected a ${contentType} response from ${url}, got "${type}"`);
+					}
+					attempt = 0;
+					computeDelay = undefined;
+					response.body && (yield* read(response.body, streamSignal));
+				} catch (err) {
+					if (streamSignal.aborted) {
+						return;
+					}
+					if (err instanceof HttpError ? !FuturableTask.retryableStatuses.includes(err.status) : !(err instanceof TypeError)) {
+						throw err;
+					}
+					error = err;
+				}
+
+				if (streamSignal.aborted || (!error && !reconnectOnEnd)) {
+					return;
+				}
+				if (++attempt > retries) {
+					if (error) {
+						throw error;
+					}
+					return;
+				}
+				computeDelay ??= FuturableTask.backoffDelays({ delay: baseDelay?.() ?? delay, backoff, factor, maxDelay });
+				const waitMs = computeDelay(attempt);
+				// A throwing hook ends the stream with its error
+				onReconnect?.(attempt, waitMs, error);
+				await Futurable.sleep({ timer: waitMs, signal: streamSignal });
+			}
+		}, signal ?? requestSignal ?? undefined);
+
+		if (signal && requestSignal) {
+			if (requestSignal.aborted) {
+				stream.cancel(requestSignal.reason);
+			} else {
+				requestSignal.addEventListener("abort", () => stream.cancel(requestSignal.reason), { once: true });
+			}
+		}
+		return stream;
+	}
+
+	/**
+	 * Decodes a response body as UTF-8 and yields its lines, split on CRLF, LF or CR.
+	 * A last line without terminator is yielded when the body ends. The reader is cancelled
+	 * when the signal aborts or the consumer stops.
+	 *
+	 * @private
+	 */
+	private static async *readLines(body: ReadableStream<Uint8Array>, signal: AbortSignal): AsyncGenerator<string, void, undefined> {
+		const reader = body.getReader();
+		const decoder = new TextDecoder();
+		const abort = () => {
+			reader.cancel(signal.reason).catch(() => { });
+		};
+		signal.addEventListener("abort", abort, { once: true });
+		try {
+			let buffer = "";
+			for (;;) {
+				const { done, value } = await reader.read();
+				buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+				// A trailing CR may be the first half of a CRLF split across chunks
+				const end = !done && buffer.endsWith("\r") ? buffer.length - 1 : buffer.length;
+				const lines = buffer.slice(0, end).split(/\r\n|\r|\n/);
+				const remainder = lines.pop()!;
+				yield* lines;
+				if (done) {
+					remainder && (yield remainder);
+					return;
+				}
+				buffer = remainder + buffer.slice(end);
+			}
+		} finally {
+			signal.removeEventListener("abort", abort);
+			reader.cancel().catch(() => { });
+		}
+	}
+
+	/**
+	 * Parses lines of the Server-Sent Events format into events, recording the last event ID
+	 * and the reconnection delay sent by the server in the given state.
+	 *
+	 * @private
+	 */
+	private static async *parseEvents(lines: AsyncIterable<string>, state: { lastEventId: string, retry?: number }): AsyncGenerator<ServerSentEvent, void, undefined> {
+		let data: string[] = [];
+		let type = "";
+		for await (const line of lines) {
+			if (line === "") {
+				if (data.length > 0) {
+					yield { type: type || "message", data: data.join("\n"), lastEventId: state.lastEventId };
+				}
+				data = [];
+				type = "";
+				continue;
+			}
+			if (line.startsWith(":")) {
+				continue;
+			}
+			const colon = line.indexOf(":");
+			const field = colon === -1 ? line : line.slice(0, colon);
+			let value = colon === -1 ? "" : line.slice(colon + 1);
+			value.startsWith(" ") && (value = value.slice(1));
+			switch (field) {
+				case "data":
+					data.push(value);
+					break;
+				case "event":
+					type = value;
+					break;
+				case "id":
+					!value.includes("\0") && (state.lastEventId = value);
+					break;
+				case "retry":
+					/^\d+$/.test(value) && (state.retry = Number(value));
+					break;
+			}
+		}
 	}
 }
\ No newline at end of file
@@ -7,15 +7,54 @@ export type {
 	FuturableExecutor,
 	FuturableIterable,
 	FuturableWithResolvers,
-	FuturablePollingController
+	FuturablePollingController,
+	FuturablePollingOptions,
+	FuturablePollingMode,
+	FuturableOptions,
+	FuturableScope,
+	FuturableResponseValidator,
+	FuturableProgress,
+	FuturableProgressOptions,
+	FuturableHttpClient,
+	FuturableHttpClientOptions,
+	FuturableHttpInterceptors,
+	FuturableHttpRequest
 } from './Futurable';
 
 export type {
 	FuturableTaskLimiter,
 	LimiterEvents,
-	MemoizeOptions
+	LimiterTaskOptions,
+	FuturableTaskKeyedLimiter,
+	RateLimiterOptions,
+	FuturableTaskRateLimiter,
+	MemoizeOptions,
+	MemoizeConfig,
+	MemoizePersistOptions,
+	CacheStore,
+	CacheFileSystem,
+	MemoizeFnOptions,
+	FuturableTaskMemoizedFn,
+	RetryOptions,
+	RetryHttpOptions,
+	StreamReconnectOptions,
+	FetchEventsOptions,
+	FetchLinesOptions,
+	ServerSentEvent,
+	PollOptions,
+	BackoffStrategy,
+	CircuitState,
+	CircuitBreakerOptions,
+	CircuitBreakerEvents,
+	FuturableTaskCircuitBreaker
 } from './FuturableTask';
 
-export { Futurable } from './Futurable';
+export type {
+	FuturableStreamSource
+} from './FuturableStream';
+
+export { Futurable, CancellationError, HttpError } from './Futurable';
+
+export { FuturableTask, CircuitOpenError, TimeoutError } from './FuturableTask';
 
-export { FuturableTask } from './FuturableTask';
\ No newline at end of file
+export { FuturableStream } from './FuturableStream';